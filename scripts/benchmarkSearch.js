@@ -0,0 +1,153 @@
+// Benchmarks completion search over a synthetic module list: the indexed search against a plain
+// scan of the list with the matcher from before the index (src/test/fixtures/fuzzyMatcherReference.ts),
+// checking both return the same results.
+// Usage: node scripts/benchmarkSearch.js [moduleCount...]
+const path = require('path');
+const esbuild = require('esbuild');
+
+const WORDS = [
+  'Player', 'Data', 'Service', 'Controller', 'Remote', 'Event', 'Util', 'String', 'Table', 'Signal',
+  'Promise', 'Janitor', 'Maid', 'Inventory', 'Shop', 'Quest', 'Combat', 'Weapon', 'Camera', 'Input',
+  'Sound', 'Effect', 'Animation', 'Character', 'Spawn', 'Round', 'Match', 'Team', 'Leaderboard', 'Config',
+  'Network', 'Store', 'Profile', 'Replica', 'Tween', 'Spring', 'Vector', 'Math', 'Pathfinding', 'Npc',
+];
+const FOLDERS = ['src/server/Services', 'src/client/Controllers', 'src/shared/Util', 'src/shared/Modules', 'Packages/_Index'];
+const QUERIES = [
+  'PlayerDataService', 'Player', 'Serv', 'Janitor', 'data', 'ctrl', 'PlayerDataServce', 'plyaerdata',
+  'pds', 'remev', 'InventoryController', 'Invnetory', 'xyzzy', 'sig', 'SignalUtil', 'cmbtwpn', 'shared/util',
+];
+
+/**
+ * Load the search modules from source
+ */
+async function loadModules() {
+  const result = await esbuild.build({
+    stdin: {
+      contents: "export * from './src/moduleSearchIndex'; " +
+        "export { fuzzyMatch as referenceFuzzyMatch } from './src/test/fixtures/fuzzyMatcherReference';",
+      resolveDir: path.join(__dirname, '..'),
+      loader: 'ts',
+    },
+    bundle: true,
+    format: 'cjs',
+    platform: 'node',
+    write: false,
+    logLevel: 'error',
+  });
+  const module = { exports: {} };
+  new Function('module', 'exports', 'require', result.outputFiles[0].text)(module, module.exports, require);
+  return module.exports;
+}
+
+/**
+ * Generate modules with deterministic pseudo-random names
+ */
+function generateModules(count) {
+  let seed = 12345;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+  const pick = list => list[Math.floor(random() * list.length)];
+
+  const modules = [];
+  for (let i = 0; i < count; i++) {
+    const wordCount = 1 + Math.floor(random() * 3);
+    let name = '';
+    for (let w = 0; w < wordCount; w++) name += pick(WORDS);
+    if (random() < 0.3) name += i;
+
+    const folder = pick(FOLDERS);
+    modules.push({
+      name,
+      fsPath: `/workspace/${folder}/${name}_${i}.lua`,
+      instancePath: `game.${folder.replace(/\//g, '.')}.${name}`,
+      relativePath: `${folder}/${name}.lua`,
+      isWallyPackage: folder.startsWith('Packages'),
+    });
+  }
+  return modules;
+}
+
+/**
+ * The search as a plain scan of the module list with the reference matcher
+ */
+function scanSearch(lib, modules, query, options) {
+  const matches = [];
+  for (const module of modules) {
+    const name = lib.referenceFuzzyMatch(query, module.name, options);
+    if (name.isMatch) {
+      matches.push({ module, name });
+      continue;
+    }
+    const path = lib.referenceFuzzyMatch(query, module.relativePath, options);
+    if (path.isMatch) {
+      matches.push({ module, path });
+    }
+  }
+  return matches;
+}
+
+/**
+ * The search through the index
+ */
+function indexedSearch(index, query, options) {
+  return index.matchModules(query, options);
+}
+
+/**
+ * Describe a search result for comparison
+ */
+function describe(matches) {
+  return JSON.stringify(matches.map(r => [r.module.fsPath, r.name, r.path]));
+}
+
+function time(fn, iterations) {
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < iterations; i++) fn();
+  return Number(process.hrtime.bigint() - start) / 1e6 / iterations;
+}
+
+async function main() {
+  const lib = await loadModules();
+  const counts = process.argv.slice(2).map(Number).filter(n => n > 0);
+  const strengths = [
+    { label: 'strict', options: { minScore: 0.5, allowVeryFuzzy: false } },
+    { label: 'normal', options: { minScore: 0.35, allowVeryFuzzy: false } },
+    { label: 'loose', options: { minScore: 0.2, allowVeryFuzzy: true } },
+  ];
+  let mismatches = 0;
+
+  for (const count of counts.length > 0 ? counts : [1000, 5000]) {
+    const modules = generateModules(count);
+    const index = new lib.ModuleSearchIndex();
+    const buildMs = time(() => index.rebuild(modules), 1);
+    console.log(`\n${count} modules (index built in ${buildMs.toFixed(1)}ms)`);
+
+    for (const { label, options } of strengths) {
+      let scanMs = 0;
+      let indexMs = 0;
+      for (const query of QUERIES) {
+        if (describe(scanSearch(lib, modules, query, options)) !== describe(indexedSearch(index, query, options))) {
+          console.error(`  Mismatch for "${query}" (${label})`);
+          mismatches++;
+        }
+        scanMs += time(() => scanSearch(lib, modules, query, options), 3);
+        indexMs += time(() => indexedSearch(index, query, options), 3);
+      }
+      console.log(`  ${label.padEnd(6)} scan ${(scanMs / QUERIES.length).toFixed(2)}ms/query, ` +
+        `indexed ${(indexMs / QUERIES.length).toFixed(2)}ms/query (${(scanMs / indexMs).toFixed(1)}x)`);
+    }
+  }
+
+  if (mismatches > 0) {
+    console.error(`\n${mismatches} result mismatches`);
+    process.exit(1);
+  }
+  console.log('\nIndexed results match the scan');
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,36 @@
+// Runs the unit tests in src/test with Node's test runner. Each test file is bundled with esbuild,
+// with `vscode` replaced by the stand-in in src/test/vscode.ts.
+// Usage: node scripts/runTests.js
+const fs = require('fs');
+const path = require('path');
+const { spawnSync } = require('child_process');
+const esbuild = require('esbuild');
+
+const root = path.join(__dirname, '..');
+const testDir = path.join(root, 'src', 'test');
+const outDir = path.join(root, 'out', 'test');
+
+async function main() {
+  const testFiles = fs.readdirSync(testDir).filter(f => f.endsWith('.test.ts'));
+
+  fs.rmSync(outDir, { recursive: true, force: true });
+  await esbuild.build({
+    entryPoints: testFiles.map(f => path.join(testDir, f)),
+    absWorkingDir: root,
+    bundle: true,
+    format: 'cjs',
+    platform: 'node',
+    outdir: outDir,
+    alias: { vscode: './src/test/vscode.ts' },
+    logLevel: 'error',
+  });
+
+  const outFiles = testFiles.map(f => path.join(outDir, f.replace(/\.ts$/, '.js')));
+  const result = spawnSync(process.execPath, ['--test', ...outFiles], { stdio: 'inherit' });
+  process.exit(result.status ?? 1);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+import { ModuleIndexer } from './moduleIndexer';
+import { PathResolver } from './pathResolver';
+import { ExtensionConfig } from './types';
+import { findRequireCalls, extractDefinedServices, extractDefinedVariables, resolveRequireExpression } from './requireParser';
+import { buildRequirePath } from './requirePathBuilder';
+import { splitInstancePath, joinInstancePath } from './instancePath';
+import { rankMatches } from './fuzzyMatcher';
+
+const DIAGNOSTIC_CODE = 'broken-require';
+const MAX_QUICK_FIXES = 3;
+
+/**
+ * Flags requires in open documents whose target doesn't exist, and offers fixes to similarly named modules
+ */
+export class BrokenRequireDiagnostics implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  private diagnostics: vscode.DiagnosticCollection;
+  private pendingUpdates: Map<string, NodeJS.Timeout> = new Map();
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private moduleIndexer: ModuleIndexer,
+    private pathResolver: PathResolver,
+    private config: ExtensionConfig
+  ) {
+    this.diagnostics = vscode.languages.createDiagnosticCollection('robloxSuperRequire.broken');
+
+    this.disposables.push(
+      vscode.workspace.onDidOpenTextDocument(document => this.update(document)),
+      vscode.workspace.onDidChangeTextDocument(e => this.scheduleUpdate(e.document)),
+      vscode.workspace.onDidCloseTextDocument(document => this.diagnostics.delete(document.uri)),
+      this.moduleIndexer.onDidChange(() => this.updateAll())
+    );
+  }
+
+  /**
+   * Check whether a document is a Lua/Luau file on disk
+   */
+  private isLuaDocument(document: vscode.TextDocument): boolean {
+    if (document.uri.scheme !== 'file') return false;
+    return document.languageId === 'lua' || document.languageId === 'luau' || /\.luau?$/i.test(document.uri.fsPath);
+  }
+
+  /**
+   * Re-evaluate every open document
+   */
+  public updateAll(): void {
+    for (const document of vscode.workspace.textDocuments) {
+      this.update(document);
+    }
+  }
+
+  /**
+   * Re-evaluate a document shortly after it stops changing
+   */
+  private scheduleUpdate(document: vscode.TextDocument): void {
+    const key = document.uri.toString();
+    const pending = this.pendingUpdates.get(key);
+    if (pending) clearTimeout(pending);
+
+    this.pendingUpdates.set(key, setTimeout(() => {
+      this.pendingUpdates.delete(key);
+      this.update(document);
+    }, 500));
+  }
+
+  /**
+   * Evaluate every require in a document
+   */
+  public update(document: vscode.TextDocument): void {
+    if (!this.isLuaDocument(document)) return;
+
+    if (!this.config.enabled || !this.config.detectBrokenRequires) {
+      this.diagnostics.delete(document.uri);
+      return;
+    }
+
+    const text = document.getText();
+    const currentScriptPath = this.pathResolver.resolveInstancePath(document.uri.fsPath);
+    const definedVariables = extractDefinedVariables(text, currentScriptPath);
+    const result: vscode.Diagnostic[] = [];
+
+    for (const call of findRequireCalls(text)) {
+      const instancePath = resolveRequireExpression(call.expression, definedVariables, currentScriptPath);
+      if (!instancePath || this.targetExists(instancePath)) continue;
+
+      // Instance names are case-sensitive, so a path that only differs in casing fails at runtime too
+      const caseMismatch = this.moduleIndexer.findByInstancePathIgnoringCase(instancePath);
+      const diagnostic = new vscode.Diagnostic(
+        call.argumentRange,
+        caseMismatch
+          ? `Module not found: ${instancePath} (instance names are case-sensitive; did you mean ${caseMismatch.instancePath}?)`
+          : `Module not found: ${instancePath}`,
+        vscode.DiagnosticSeverity.Warning
+      );
+      diagnostic.source = 'Roblox Super Require';
+      diagnostic.code = DIAGNOSTIC_CODE;
+      result.push(diagnostic);
+    }
+
+    this.diagnostics.set(document.uri, result);
+  }
+
+  /**
+   * Check whether a require target exists. Targets under services that contain no
+   * known modules are assumed to exist, since they are probably created in Studio.
+   */
+  private targetExists(instancePath: string): boolean {
+    if (this.moduleIndexer.findByInstancePath(instancePath)) return true;
+    if (this.pathResolver.instanceExistsInSourcemap(instancePath)) return true;
+
+    const segments = splitInstancePath(instancePath);
+    if (segments.length < 2) return true;
+
+    const servicePath = joinInstancePath(segments.slice(0, 2));
+    return !this.moduleIndexer.getModules().some(m =>
+      m.instancePath === servicePath || m.instancePath.startsWith(servicePath + '.') || m.instancePath.startsWith(servicePath + '[')
+    );
+  }
+
+  /**
+   * Offer replacements with the closest matching modules
+   */
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+    const text = document.getText();
+    const currentScriptPath = this.pathResolver.resolveInstancePath(document.uri.fsPath);
+    const definedServices = extractDefinedServices(text);
+    const definedVariables = extractDefinedVariables(text, currentScriptPath);
+
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.code !== DIAGNOSTIC_CODE) continue;
+
+      const expression = document.getText(diagnostic.range).replace(/\s+/g, '');
+      const instancePath = resolveRequireExpression(expression, definedVariables, currentScriptPath);
+      if (!instancePath) continue;
+
+      const segments = splitInstancePath(instancePath);
+      const query = segments[segments.length - 1];
+      const minScore = this.config.fuzzyMatchStrength === 'strict' ? 0.5
+        : this.config.fuzzyMatchStrength === 'loose' ? 0.2 : 0.35;
+      const ranked = rankMatches(query, this.moduleIndexer.getModules(), m => m.name, { minScore })
+        .filter(r => r.score >= minScore)
+        .map(r => r.item);
+      // A module differing only in casing is the likely intent
+      const caseMismatch = this.moduleIndexer.findByInstancePathIgnoringCase(instancePath);
+      const candidates = caseMismatch ? [caseMismatch, ...ranked.filter(m => m !== caseMismatch)] : ranked;
+
+      candidates.slice(0, MAX_QUICK_FIXES).forEach((item, index) => {
+        const requirePath = buildRequirePath(item.instancePath, definedServices, definedVariables, currentScriptPath, this.config);
+        const action = new vscode.CodeAction(`Change to ${item.name} (${item.instancePath})`, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(document.uri, diagnostic.range, requirePath);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = index === 0;
+        actions.push(action);
+      });
+    }
+
+    return actions;
+  }
+
+  public updateConfig(config: ExtensionConfig): void {
+    this.config = config;
+    this.updateAll();
+  }
+
+  /**
+   * Dispose resources
+   */
+  public dispose(): void {
+    for (const timeout of this.pendingUpdates.values()) {
+      clearTimeout(timeout);
+    }
+    this.pendingUpdates.clear();
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+    this.diagnostics.dispose();
+  }
+}
@@ -0,0 +1,189 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DependencyGraph, ResolvedRequire } from './dependencyGraph';
+import { ModuleIndexer } from './moduleIndexer';
+import { ExtensionConfig } from './types';
+
+/**
+ * Get the requires of a file that run when it loads. Requires inside function bodies are the usual way
+ * to break a cycle, so they are not cycle edges.
+ */
+function getLoadTimeDependencies(graph: DependencyGraph, fsPath: string): ResolvedRequire[] {
+  return graph.getDependencies(fsPath).filter(r => !r.call.insideFunction);
+}
+
+/**
+ * Find the strongly connected components of the require graph (Tarjan's algorithm)
+ * @returns Map of file to the id of its component
+ */
+function findComponents(graph: DependencyGraph): Map<string, number> {
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components = new Map<string, number>();
+  let nextIndex = 0;
+  let nextComponent = 0;
+
+  const visit = (fsPath: string): void => {
+    indices.set(fsPath, nextIndex);
+    lowLinks.set(fsPath, nextIndex);
+    nextIndex++;
+    stack.push(fsPath);
+    onStack.add(fsPath);
+
+    for (const require of getLoadTimeDependencies(graph, fsPath)) {
+      const target = require.toPath!;
+      if (!indices.has(target)) {
+        visit(target);
+        lowLinks.set(fsPath, Math.min(lowLinks.get(fsPath)!, lowLinks.get(target)!));
+      } else if (onStack.has(target)) {
+        lowLinks.set(fsPath, Math.min(lowLinks.get(fsPath)!, indices.get(target)!));
+      }
+    }
+
+    if (lowLinks.get(fsPath) === indices.get(fsPath)) {
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        components.set(member, nextComponent);
+      } while (member !== fsPath);
+      nextComponent++;
+    }
+  };
+
+  for (const fsPath of graph.getFiles()) {
+    if (!indices.has(fsPath)) {
+      visit(fsPath);
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Find the shortest chain of requires from `start` back to `goal`, staying inside one component
+ */
+function findPath(
+  graph: DependencyGraph,
+  components: Map<string, number>,
+  start: string,
+  goal: string
+): ResolvedRequire[] | null {
+  const component = components.get(start);
+  const previous = new Map<string, ResolvedRequire | null>([[start, null]]);
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === goal) {
+      const chain: ResolvedRequire[] = [];
+      let step = previous.get(current);
+      while (step) {
+        chain.unshift(step);
+        step = previous.get(step.fromPath);
+      }
+      return chain;
+    }
+
+    for (const require of getLoadTimeDependencies(graph, current)) {
+      const target = require.toPath!;
+      if (!previous.has(target) && components.get(target) === component) {
+        previous.set(target, require);
+        queue.push(target);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Reports requires that form a cycle, with the full cycle path
+ */
+export class CircularRequireDiagnostics {
+  private diagnostics: vscode.DiagnosticCollection;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private graph: DependencyGraph,
+    private moduleIndexer: ModuleIndexer,
+    private config: ExtensionConfig
+  ) {
+    this.diagnostics = vscode.languages.createDiagnosticCollection('robloxSuperRequire.circular');
+    this.disposables.push(this.graph.onDidChange(() => this.update()));
+  }
+
+  /**
+   * Recompute cycle diagnostics for the whole workspace
+   */
+  public update(): void {
+    this.diagnostics.clear();
+    if (!this.config.enabled || !this.config.detectCircularRequires) return;
+
+    const components = findComponents(this.graph);
+    const componentSizes = new Map<number, number>();
+    for (const id of components.values()) {
+      componentSizes.set(id, (componentSizes.get(id) ?? 0) + 1);
+    }
+
+    const byFile = new Map<string, vscode.Diagnostic[]>();
+
+    for (const fsPath of this.graph.getFiles()) {
+      const component = components.get(fsPath)!;
+
+      for (const require of getLoadTimeDependencies(this.graph, fsPath)) {
+        const target = require.toPath!;
+        const isSelfRequire = target === fsPath;
+        if (!isSelfRequire && (components.get(target) !== component || componentSizes.get(component)! < 2)) continue;
+
+        const rest = isSelfRequire ? [] : findPath(this.graph, components, target, fsPath);
+        if (!rest) continue;
+
+        const cycle = [require, ...rest];
+        const names = [fsPath, ...cycle.map(r => r.toPath!)].map(p => this.getDisplayName(p));
+
+        const diagnostic = new vscode.Diagnostic(
+          require.call.callRange,
+          `Circular require: ${names.join(' → ')}`,
+          vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = 'Roblox Super Require';
+        diagnostic.code = 'circular-require';
+        diagnostic.relatedInformation = rest.map(step => new vscode.DiagnosticRelatedInformation(
+          new vscode.Location(vscode.Uri.file(step.fromPath), step.call.callRange),
+          `${this.getDisplayName(step.fromPath)} requires ${this.getDisplayName(step.toPath!)}`
+        ));
+
+        const fileDiagnostics = byFile.get(fsPath) ?? [];
+        fileDiagnostics.push(diagnostic);
+        byFile.set(fsPath, fileDiagnostics);
+      }
+    }
+
+    for (const [fsPath, fileDiagnostics] of byFile) {
+      this.diagnostics.set(vscode.Uri.file(fsPath), fileDiagnostics);
+    }
+  }
+
+  private getDisplayName(fsPath: string): string {
+    return this.moduleIndexer.findByFsPath(fsPath)?.name ?? path.basename(fsPath);
+  }
+
+  public updateConfig(config: ExtensionConfig): void {
+    this.config = config;
+    this.update();
+  }
+
+  /**
+   * Dispose resources
+   */
+  public dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+    this.diagnostics.dispose();
+  }
+}
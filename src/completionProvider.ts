@@ -1,7 +1,60 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { ModuleIndexer } from './moduleIndexer';
-import { ModuleInfo, ExtensionConfig, DefinedVariable } from './types';
-import { fuzzyMatch, rankMatches, FuzzyMatchOptions } from './fuzzyMatcher';
+import { ModuleInfo, ExtensionConfig, DefinedVariable, Realm } from './types';
+import { fuzzyMatch, FuzzyMatchOptions } from './fuzzyMatcher';
+import { appendExportsMarkdown } from './moduleDocs';
+import { extractDefinedServices, extractDefinedVariables } from './requireParser';
+import { collectDeclaredIdentifiers, stripComments } from './luaSource';
+import { buildRequirePath } from './requirePathBuilder';
+import { getFileRealm, getInstanceRealm, canRequireAcrossRealms } from './realm';
+import { getModuleVariableName, getUniqueVariableName } from './variableNaming';
+import { getModuleTag } from './moduleTags';
+import { compareServiceNames, getServiceInsertionPoint, getSortedRequireInsertionPoint } from './requireBlock';
+import { DocumentRequire, RequireResolver } from './requireResolver';
+import { FrecencyTracker } from './frecency';
+import { splitInstancePath, joinInstancePath } from './instancePath';
+import { getModuleProximity } from './proximity';
+import { ModuleMatch } from './moduleSearchIndex';
+import { combineSignals, getMatchSignals } from './ranking';
+import { hasScope, matchesScope, parseScopedQuery } from './scopedQuery';
+
+/**
+ * A require statement ready to insert
+ */
+interface PendingRequire {
+  varName: string;
+  requirePath: string;
+  statement: string;
+  /** Service that needs a new GetService declaration for the path to work */
+  missingService?: string;
+}
+
+/**
+ * The file and trigger a completion was requested for
+ */
+interface TriggerContext {
+  document: vscode.TextDocument;
+  /** Text typed after the trigger */
+  query: string;
+  position: vscode.Position;
+  leadingWhitespace: string;
+  textBeforeCursor: string;
+  currentScriptPath: string | null;
+  currentRealm: Realm;
+  definedServices: Map<string, string>;
+  definedVariables: DefinedVariable[];
+  /** Document lines with the trigger line blanked, so the require block can extend past it */
+  blockLines: string[];
+  /** Identifiers declared anywhere in the file */
+  declaredNames: Set<string>;
+  /** Requires already in the file, by required module file */
+  requiresByModule: Map<string, DocumentRequire>;
+  /** Requires already in the file, by the local they are assigned to */
+  requiresByName: Map<string, DocumentRequire>;
+  /** Scopes picks from this file are recorded and ranked under */
+  usageScopes: string[];
+}
 
 /**
  * Provides autocomplete suggestions for require statements
@@ -9,189 +62,21 @@ import { fuzzyMatch, rankMatches, FuzzyMatchOptions } from './fuzzyMatcher';
 export class RequireCompletionProvider implements vscode.CompletionItemProvider {
   constructor(
     private moduleIndexer: ModuleIndexer,
+    private requireResolver: RequireResolver,
+    private frecency: FrecencyTracker,
     private config: ExtensionConfig
   ) {}
 
   public updateFuseIndex(): void {}
 
-  /**
-   * Extract defined service variables from the document
-   */
-  private extractDefinedServices(document: vscode.TextDocument): Map<string, string> {
-    const services = new Map<string, string>();
-    const text = document.getText();
-    
-    // Match: local X = game:GetService("Service") or local X = game.Service
-    const getServicePattern = /local\s+(\w+)\s*=\s*game:GetService\s*\(\s*["'](\w+)["']\s*\)/g;
-    const dotAccessPattern = /local\s+(\w+)\s*=\s*game\.(\w+)\s*(?:$|[\r\n;])/gm;
-    
-    let match;
-    while ((match = getServicePattern.exec(text)) !== null) {
-      services.set(match[2], match[1]);
-    }
-    while ((match = dotAccessPattern.exec(text)) !== null) {
-      if (/^[A-Z]/.test(match[2])) {
-        services.set(match[2], match[1]);
-      }
-    }
-    return services;
-  }
-
-  /**
-   * Extract all defined instance variables
-   */
-  private extractDefinedVariables(document: vscode.TextDocument): DefinedVariable[] {
-    const variables: DefinedVariable[] = [];
-    const text = document.getText();
-    const serviceVars = new Map<string, { varName: string; instancePath: string; lineIndex: number }>();
-    
-    // Match game:GetService patterns
-    const getServicePattern = /local\s+(\w+)\s*=\s*game:GetService\s*\(\s*["'](\w+)["']\s*\)/g;
-    let match;
-    while ((match = getServicePattern.exec(text)) !== null) {
-      const [, varName, serviceName] = match;
-      const lineIndex = text.substring(0, match.index).split('\n').length - 1;
-      const instancePath = `game.${serviceName}`;
-      serviceVars.set(varName, { varName, instancePath, lineIndex });
-      variables.push({ varName, instancePath, depth: 2, lineIndex });
-    }
-    
-    // Match game.Service patterns
-    const dotAccessPattern = /local\s+(\w+)\s*=\s*game\.(\w+)\s*(?:$|[\r\n;])/gm;
-    while ((match = dotAccessPattern.exec(text)) !== null) {
-      const [, varName, serviceName] = match;
-      if (/^[A-Z]/.test(serviceName) && !serviceVars.has(varName)) {
-        const lineIndex = text.substring(0, match.index).split('\n').length - 1;
-        const instancePath = `game.${serviceName}`;
-        serviceVars.set(varName, { varName, instancePath, lineIndex });
-        variables.push({ varName, instancePath, depth: 2, lineIndex });
-      }
-    }
-    
-    // Match nested paths: local X = OtherVar.Path.To.Thing
-    const varRefPattern = /local\s+(\w+)\s*=\s*(\w+)((?:\.\w+|\["[^"]+"\])+)/g;
-    while ((match = varRefPattern.exec(text)) !== null) {
-      const [, newVarName, baseVarName, pathPart] = match;
-      const baseVar = serviceVars.get(baseVarName);
-      if (baseVar) {
-        const lineIndex = text.substring(0, match.index).split('\n').length - 1;
-        let additionalPath = '';
-        const dotMatches = pathPart.matchAll(/\.(\w+)/g);
-        for (const dm of dotMatches) additionalPath += `.${dm[1]}`;
-        const bracketMatches = pathPart.matchAll(/\[["']([^"']+)["']\]/g);
-        for (const bm of bracketMatches) {
-          additionalPath += /^[a-zA-Z_]\w*$/.test(bm[1]) ? `.${bm[1]}` : `["${bm[1]}"]`;
-        }
-        if (additionalPath) {
-          const instancePath = baseVar.instancePath + additionalPath;
-          const depth = instancePath.split(/\.|\[/).length;
-          serviceVars.set(newVarName, { varName: newVarName, instancePath, lineIndex });
-          variables.push({ varName: newVarName, instancePath, depth, lineIndex });
-        }
-      }
-    }
-    
-    variables.sort((a, b) => b.depth - a.depth);
-    return variables;
-  }
-
   /**
    * Get current script's instance path
    */
   private getCurrentScriptPath(document: vscode.TextDocument): string | null {
-    const currentModule = this.moduleIndexer.getModules().find(m => m.fsPath === document.uri.fsPath);
+    const currentModule = this.moduleIndexer.findByFsPath(document.uri.fsPath);
     return currentModule?.instancePath || null;
   }
 
-  /**
-   * Try to generate a relative path (script.Parent based)
-   */
-  private getRelativePath(currentPath: string, targetPath: string): string | null {
-    if (this.config.pathStyle === 'absolute') return null;
-    
-    const currentParts = currentPath.split('.');
-    const targetParts = targetPath.split('.');
-    
-    if (currentParts[0] !== 'game' || targetParts[0] !== 'game') return null;
-    
-    let commonLength = 0;
-    for (let i = 0; i < Math.min(currentParts.length, targetParts.length); i++) {
-      if (currentParts[i] === targetParts[i]) commonLength = i + 1;
-      else break;
-    }
-    
-    if (commonLength < 2) return null;
-    
-    const parentsNeeded = currentParts.length - commonLength;
-    const childrenNeeded = targetParts.slice(commonLength);
-    
-    if (parentsNeeded > 3) return null; // Max 3 parents
-    
-    let relativePath = 'script';
-    for (let i = 0; i < parentsNeeded; i++) relativePath += '.Parent';
-    for (const child of childrenNeeded) {
-      relativePath += /^[a-zA-Z_]\w*$/.test(child) ? `.${child}` : `["${child}"]`;
-    }
-    
-    return relativePath;
-  }
-
-  /**
-   * Find deepest matching variable for path
-   */
-  private findDeepestMatchingVariable(instancePath: string, definedVariables: DefinedVariable[]): { varName: string; remainingPath: string } | null {
-    const normalizedTarget = instancePath.toLowerCase();
-    
-    for (const variable of definedVariables) {
-      const normalizedVarPath = variable.instancePath.toLowerCase();
-      if (normalizedTarget.startsWith(normalizedVarPath)) {
-        const remaining = instancePath.substring(variable.instancePath.length);
-        if (remaining === '' || remaining.startsWith('.') || remaining.startsWith('[')) {
-          return { varName: variable.varName, remainingPath: remaining };
-        }
-      }
-    }
-    return null;
-  }
-
-  /**
-   * Build the best require path
-   */
-  private buildRequirePath(
-    moduleInfo: ModuleInfo,
-    definedServices: Map<string, string>,
-    definedVariables: DefinedVariable[],
-    currentScriptPath: string | null
-  ): string {
-    const instancePath = moduleInfo.instancePath;
-    
-    // Try deepest matching variable first
-    const deepMatch = this.findDeepestMatchingVariable(instancePath, definedVariables);
-    if (deepMatch) {
-      return deepMatch.varName + deepMatch.remainingPath;
-    }
-    
-    // Try relative path
-    if (currentScriptPath && this.config.pathStyle !== 'absolute') {
-      const relativePath = this.getRelativePath(currentScriptPath, instancePath);
-      if (relativePath) return relativePath;
-    }
-    
-    // Try service variable
-    const match = instancePath.match(/^game\.(\w+)(\..*)?$/);
-    if (match) {
-      const varName = definedServices.get(match[1]);
-      if (varName) return varName + (match[2] || '');
-    }
-    
-    // Use GetService if configured
-    if (this.config.useGetService && match) {
-      return `game:GetService("${match[1]}")${match[2] || ''}`;
-    }
-    
-    return instancePath;
-  }
-
   /**
    * Provide completion items
    */
@@ -211,69 +96,140 @@ export class RequireCompletionProvider implements vscode.CompletionItemProvider
 
     const [fullMatch, leadingWhitespace, searchQuery] = match;
     
-    const definedServices = this.extractDefinedServices(document);
-    const definedVariables = this.extractDefinedVariables(document);
+    const text = document.getText();
     const currentScriptPath = this.getCurrentScriptPath(document);
 
-    const results = this.searchModules(searchQuery);
+    const blockLines = text.split(/\r?\n/);
+    blockLines[position.line] = '';
+
+    const requiresByModule = new Map<string, DocumentRequire>();
+    const requiresByName = new Map<string, DocumentRequire>();
+    for (const require of this.requireResolver.resolveDocument(document)) {
+      if (require.module && !requiresByModule.has(require.module.fsPath)) requiresByModule.set(require.module.fsPath, require);
+      if (require.call.varName && !requiresByName.has(require.call.varName)) requiresByName.set(require.call.varName, require);
+    }
+
+    const currentRealm = getFileRealm(document.uri.fsPath, currentScriptPath);
+    const folder = currentScriptPath
+      ? joinInstancePath(splitInstancePath(currentScriptPath).slice(0, -1))
+      : path.dirname(document.uri.fsPath);
+
+    const context: TriggerContext = {
+      document,
+      query: searchQuery,
+      position,
+      leadingWhitespace,
+      textBeforeCursor,
+      currentScriptPath,
+      currentRealm,
+      definedServices: extractDefinedServices(text),
+      definedVariables: extractDefinedVariables(text, currentScriptPath),
+      blockLines,
+      declaredNames: collectDeclaredIdentifiers(stripComments(blockLines.join('\n'))),
+      requiresByModule,
+      requiresByName,
+      usageScopes: this.frecency.getScopes(currentRealm, folder),
+    };
+
+    // A comma-separated query (:Janitor,Signal,Promise) inserts one require per name
+    if (searchQuery.includes(',')) {
+      const item = this.createMultiRequireItem(searchQuery, context);
+      return item ? new vscode.CompletionList([item], true) : undefined;
+    }
+
+    const results = this.searchModules(searchQuery, context);
     if (results.length === 0) return undefined;
 
-    const completionItems = results.map((moduleInfo, index) => 
-      this.createCompletionItem(moduleInfo, position, leadingWhitespace, textBeforeCursor, index, definedServices, definedVariables, currentScriptPath)
-    );
+    // Modules the file already requires are offered last, as a jump to the existing require
+    const required = results.filter(m => requiresByModule.has(m.fsPath));
+    const completionItems = [
+      ...results.filter(m => !requiresByModule.has(m.fsPath)).map((moduleInfo, index) => this.createCompletionItem(moduleInfo, index, context)),
+      ...required.map((moduleInfo, index) => this.createExistingRequireItem(moduleInfo, requiresByModule.get(moduleInfo.fsPath)!, results.length + index, context)),
+    ];
     
     return new vscode.CompletionList(completionItems, true);
   }
 
   /**
-   * Search modules with fuzzy matching
+   * Search modules and rank them by one score that weighs how well each matches the query
+   * together with usage, proximity and Wally package signals.
+   * The query may narrow the search with filters (see parseScopedQuery).
    */
-  private searchModules(query: string): ModuleInfo[] {
-    const allModules = this.moduleIndexer.getModules();
-    
-    if (!query || query.trim() === '') {
-      return allModules.slice(0, this.config.maxSuggestions);
-    }
+  private searchModules(query: string, context: TriggerContext): ModuleInfo[] {
+    const { currentRealm } = context;
+    const scoped = parseScopedQuery(query);
+    const hideUnrequirable = this.config.serverModulesInClient === 'hide';
+    const inScope = hideUnrequirable || hasScope(scoped)
+      ? (m: ModuleInfo) =>
+        (!hideUnrequirable || canRequireAcrossRealms(currentRealm, getInstanceRealm(m.instancePath))) && matchesScope(m, scoped)
+      : undefined;
 
-    const queryLower = query.toLowerCase();
-    
-    // Fast path: exact, prefix, substring matches
-    const exactMatches: ModuleInfo[] = [];
-    const prefixMatches: ModuleInfo[] = [];
-    const substringMatches: ModuleInfo[] = [];
-    
-    for (const module of allModules) {
-      const nameLower = module.name.toLowerCase();
-      if (nameLower === queryLower) exactMatches.push(module);
-      else if (nameLower.startsWith(queryLower)) prefixMatches.push(module);
-      else if (nameLower.includes(queryLower)) substringMatches.push(module);
-    }
-    
-    if (exactMatches.length > 0) return exactMatches.slice(0, this.config.maxSuggestions);
-    if (prefixMatches.length > 0) {
-      prefixMatches.sort((a, b) => a.name.length - b.name.length);
-      return prefixMatches.slice(0, this.config.maxSuggestions);
-    }
-    if (substringMatches.length > 0) {
-      substringMatches.sort((a, b) => a.name.length - b.name.length);
-      return substringMatches.slice(0, this.config.maxSuggestions);
+    let matches: ModuleMatch[];
+    if (scoped.text === '') {
+      const allModules = this.moduleIndexer.getModules();
+      matches = (inScope ? allModules.filter(inScope) : allModules).map(module => ({ module }));
+    } else {
+      // Fuzzy matching based on strength setting
+      const minScore = this.config.fuzzyMatchStrength === 'strict' ? 0.5 
+        : this.config.fuzzyMatchStrength === 'loose' ? 0.2 : 0.35;
+
+      const fuzzyOptions: Partial<FuzzyMatchOptions> = {
+        minScore,
+        allowVeryFuzzy: this.config.fuzzyMatchStrength === 'loose',
+      };
+
+      matches = this.moduleIndexer.getSearchIndex().matchModules(scoped.text, fuzzyOptions, inScope);
     }
-    
-    // Fuzzy matching based on strength setting
-    const minScore = this.config.fuzzyMatchStrength === 'strict' ? 0.5 
-      : this.config.fuzzyMatchStrength === 'loose' ? 0.2 : 0.35;
-    
-    const fuzzyOptions: Partial<FuzzyMatchOptions> = {
-      minScore,
-      allowVeryFuzzy: this.config.fuzzyMatchStrength === 'loose',
+
+    return this.limitResults(
+      matches
+        .map(match => ({ module: match.module, score: this.scoreModule(scoped.text, match, context) }))
+        .sort((a, b) => b.score - a.score)
+        .map(r => r.module),
+      currentRealm
+    );
+  }
+
+  /**
+   * Score a module for ranking from its match against the query and its Wally, usage and proximity signals.
+   * Usage and proximity count as 0 when their ranking setting is off.
+   */
+  private scoreModule(query: string, match: ModuleMatch, context: TriggerContext): number {
+    const { module } = match;
+    const { rankByUsage, rankByProximity, rankingWeights } = this.config;
+
+    return combineSignals({
+      ...getMatchSignals(query, module, match.name, match.path),
+      wallyPackage: module.isWallyPackage ? 1 : 0,
+      usage: rankByUsage ? this.frecency.getScore(module.fsPath, context.usageScopes) : 0,
+      proximity: rankByProximity
+        ? getModuleProximity(context.currentScriptPath, context.currentRealm, module.instancePath).score
+        : 0,
+    }, rankingWeights);
+  }
+
+  /**
+   * Get the command that records a completion pick for usage ranking
+   */
+  private getRecordPickCommand(modules: ModuleInfo[], context: TriggerContext): vscode.Command | undefined {
+    if (!this.config.rankByUsage) return undefined;
+    return {
+      title: 'Record Pick',
+      command: 'robloxSuperRequire.recordPick',
+      arguments: [modules.map(m => m.fsPath), context.usageScopes],
     };
-    
-    const rankedResults = rankMatches(query, allModules, (m) => [m.name, m.relativePath], fuzzyOptions);
-    
-    return rankedResults
-      .filter(r => r.score >= minScore)
-      .map(r => r.item)
-      .slice(0, this.config.maxSuggestions);
+  }
+
+  /**
+   * Move modules the current realm can't require to the end (when configured) and cap the result count
+   */
+  private limitResults(results: ModuleInfo[], currentRealm: Realm): ModuleInfo[] {
+    if (this.config.serverModulesInClient === 'deprioritize') {
+      const requirable = results.filter(m => canRequireAcrossRealms(currentRealm, getInstanceRealm(m.instancePath)));
+      const unrequirable = results.filter(m => !canRequireAcrossRealms(currentRealm, getInstanceRealm(m.instancePath)));
+      results = [...requirable, ...unrequirable];
+    }
+    return results.slice(0, this.config.maxSuggestions);
   }
 
   /**
@@ -288,73 +244,284 @@ export class RequireCompletionProvider implements vscode.CompletionItemProvider
     if (nameLower.includes('controller')) return vscode.CompletionItemKind.Class;
     if (nameLower.includes('component')) return vscode.CompletionItemKind.Struct;
     if (nameLower.includes('util') || nameLower.includes('helper')) return vscode.CompletionItemKind.Function;
-    if (pathLower.includes('serverscriptservice') || pathLower.includes('serverstorage')) return vscode.CompletionItemKind.Event;
-    if (pathLower.includes('starterplayerscripts') || pathLower.includes('startergui')) return vscode.CompletionItemKind.User;
+    const realm = getInstanceRealm(moduleInfo.instancePath);
+    if (realm === 'server') return vscode.CompletionItemKind.Event;
+    if (realm === 'client') return vscode.CompletionItemKind.User;
     if (pathLower.includes('replicatedstorage')) return vscode.CompletionItemKind.Constant;
     return vscode.CompletionItemKind.Module;
   }
 
   /**
-   * Get module type tag
+   * Create a completion item
    */
-  private getModuleTag(moduleInfo: ModuleInfo): string {
-    const nameLower = moduleInfo.name.toLowerCase();
-    const pathLower = moduleInfo.instancePath.toLowerCase();
+  private createCompletionItem(moduleInfo: ModuleInfo, sortIndex: number, context: TriggerContext): vscode.CompletionItem {
+    const pending = this.buildPendingRequire(moduleInfo, context, context.declaredNames);
+    const { varName, requirePath, statement: requireStatement } = pending;
+
+    const item = new vscode.CompletionItem(moduleInfo.name, this.getModuleIcon(moduleInfo));
+    const { relationship } = getModuleProximity(context.currentScriptPath, context.currentRealm, moduleInfo.instancePath);
+    item.detail = [getModuleTag(moduleInfo), relationship, requirePath].filter(part => part).join(' • ');
+    
+    const doc = new vscode.MarkdownString();
+    doc.appendMarkdown(`${this.highlightMatch(moduleInfo.name, context.query)}\n\n`);
+    doc.appendMarkdown(`**Path:** \`${moduleInfo.instancePath}\`\n\n`);
+
+    const conflict = this.findNameConflict(moduleInfo, context);
+    if (conflict) {
+      const conflictTarget = conflict.instancePath ?? conflict.call.expression;
+      item.detail = `⚠ ${conflict.call.varName} is ${conflictTarget} • ${item.detail}`;
+      doc.appendMarkdown(`⚠ \`${conflict.call.varName}\` already requires \`${conflictTarget}\` on line ${conflict.call.line + 1}, so this require is named \`${varName}\`\n\n`);
+    }
+
+    doc.appendCodeblock(this.getServiceDeclarations([pending]).concat(requireStatement).join('\n'), 'lua');
+    appendExportsMarkdown(doc, moduleInfo.exports, varName);
+    item.documentation = doc;
     
-    if (moduleInfo.isWallyPackage) return 'Wally';
-    if (nameLower.includes('service')) return 'Service';
-    if (nameLower.includes('controller')) return 'Controller';
-    if (nameLower.includes('component')) return 'Component';
-    if (nameLower.includes('util') || nameLower.includes('helper')) return 'Utility';
-    if (pathLower.includes('serverscriptservice') || pathLower.includes('serverstorage')) return 'Server';
-    if (pathLower.includes('starterplayerscripts') || pathLower.includes('startergui')) return 'Client';
-    if (pathLower.includes('replicatedstorage')) return 'Shared';
-    return 'Module';
+    this.applyPlacement(item, [pending], context);
+    item.command = this.getRecordPickCommand([moduleInfo], context);
+    item.sortText = String(sortIndex).padStart(5, '0');
+    item.filterText = context.textBeforeCursor;
+    if (sortIndex === 0) item.preselect = true;
+
+    return item;
   }
 
   /**
-   * Create a completion item
+   * Render a name as markdown with the characters matched by the query in bold (the whole name without a match)
    */
-  private createCompletionItem(
+  private highlightMatch(name: string, query: string): string {
+    const text = parseScopedQuery(query).text;
+    const positions = new Set(text ? fuzzyMatch(text, name).positions : []);
+    if (positions.size === 0) return `**${name}**`;
+
+    const escape = (c: string) => /[\\`*_{}[\]()#+\-.!<>]/.test(c) ? `\\${c}` : c;
+
+    let result = '';
+    for (let i = 0; i < name.length; i++) {
+      const starts = positions.has(i) && !positions.has(i - 1);
+      const ends = positions.has(i) && !positions.has(i + 1);
+      result += (starts ? '**' : '') + escape(name[i]) + (ends ? '**' : '');
+    }
+    return result;
+  }
+
+  /**
+   * Create a completion item for a module the file already requires: it removes the trigger and jumps to the existing require
+   */
+  private createExistingRequireItem(
     moduleInfo: ModuleInfo,
-    position: vscode.Position,
-    leadingWhitespace: string,
-    textBeforeCursor: string,
+    existing: DocumentRequire,
     sortIndex: number,
-    definedServices: Map<string, string>,
-    definedVariables: DefinedVariable[],
-    currentScriptPath: string | null
+    context: TriggerContext
   ): vscode.CompletionItem {
-    let varName = moduleInfo.name
-      .replace(/\.(luau|lua|server|client)$/gi, '')
-      .replace(/[^a-zA-Z0-9_]/g, '_')
-      .replace(/^[0-9]/, '_$&');
-    
-    if (moduleInfo.isWallyPackage && varName.length > 0) {
-      varName = varName.charAt(0).toUpperCase() + varName.slice(1);
+    const { document, position, leadingWhitespace } = context;
+    const name = existing.call.varName ?? moduleInfo.name;
+
+    const item = new vscode.CompletionItem(
+      { label: moduleInfo.name, description: `already required as ${name}` },
+      this.getModuleIcon(moduleInfo)
+    );
+    item.detail = `Already required on line ${existing.call.line + 1} • ${existing.call.expression}`;
+    item.documentation = new vscode.MarkdownString(`**${moduleInfo.name}** is already required on line ${existing.call.line + 1}. Select to jump to it.`);
+
+    item.range = new vscode.Range(new vscode.Position(position.line, leadingWhitespace.length), position);
+    item.insertText = '';
+    item.command = {
+      title: 'Go to Existing Require',
+      command: 'editor.action.goToLocations',
+      arguments: [document.uri, position, [new vscode.Location(document.uri, existing.call.callRange)], 'goto', ''],
+    };
+    item.sortText = String(sortIndex).padStart(5, '0');
+    item.filterText = context.textBeforeCursor;
+
+    return item;
+  }
+
+  /**
+   * Find an existing require that already uses the module's variable name for a different module
+   */
+  private findNameConflict(moduleInfo: ModuleInfo, context: TriggerContext): DocumentRequire | undefined {
+    const existing = context.requiresByName.get(getModuleVariableName(moduleInfo, this.config));
+    return existing && existing.module?.fsPath !== moduleInfo.fsPath ? existing : undefined;
+  }
+
+  /**
+   * Create one completion item that inserts a require for the best match of every name in a comma-separated query.
+   * Modules the file already requires are skipped.
+   */
+  private createMultiRequireItem(query: string, context: TriggerContext): vscode.CompletionItem | null {
+    const modules: ModuleInfo[] = [];
+    const unresolved: string[] = [];
+    const alreadyRequired: string[] = [];
+
+    for (const term of query.split(',').map(t => t.trim()).filter(t => t !== '')) {
+      const best = this.searchModules(term, context)[0];
+      if (!best) unresolved.push(term);
+      else if (context.requiresByModule.has(best.fsPath)) alreadyRequired.push(best.name);
+      else if (!modules.includes(best)) modules.push(best);
     }
-    
-    const requirePath = this.buildRequirePath(moduleInfo, definedServices, definedVariables, currentScriptPath);
-    const requireStatement = `local ${varName} = require(${requirePath})`;
+    if (modules.length === 0) return null;
+
+    // Names picked for earlier modules in the list are taken too
+    const taken = new Set(context.declaredNames);
+    const statements = modules.map(moduleInfo => {
+      const pending = this.buildPendingRequire(moduleInfo, context, taken);
+      taken.add(pending.varName);
+      return pending;
+    });
+
+    const item = new vscode.CompletionItem(modules.map(m => m.name).join(', '), vscode.CompletionItemKind.Module);
+    this.applyPlacement(item, statements, context);
+    item.command = this.getRecordPickCommand(modules, context);
+    item.detail = `Insert ${modules.length} requires`;
+    if (alreadyRequired.length > 0) item.detail += ` • already required: ${alreadyRequired.join(', ')}`;
+    if (unresolved.length > 0) item.detail += ` • not found: ${unresolved.join(', ')}`;
 
-    const item = new vscode.CompletionItem(moduleInfo.name, this.getModuleIcon(moduleInfo));
-    item.insertText = requireStatement;
-    item.detail = `${this.getModuleTag(moduleInfo)} • ${requirePath}`;
-    
     const doc = new vscode.MarkdownString();
-    doc.appendMarkdown(`**${moduleInfo.name}**\n\n`);
-    doc.appendMarkdown(`**Path:** \`${moduleInfo.instancePath}\`\n\n`);
-    doc.appendCodeblock(requireStatement, 'lua');
+    doc.appendCodeblock(this.getServiceDeclarations(statements).concat(statements.map(s => s.statement)).join('\n'), 'lua');
     item.documentation = doc;
-    
-    item.range = new vscode.Range(new vscode.Position(position.line, leadingWhitespace.length), position);
-    item.sortText = String(sortIndex).padStart(5, '0');
-    item.filterText = textBeforeCursor;
-    if (sortIndex === 0) item.preselect = true;
+
+    item.sortText = '00000';
+    item.filterText = context.textBeforeCursor;
+    item.preselect = true;
 
     return item;
   }
 
+  /**
+   * Build the require statement for a module. When the best path starts from `game` and declaring
+   * missing services is enabled, the path uses a new service variable instead.
+   * @param takenNames Identifiers the variable name must not collide with
+   */
+  private buildPendingRequire(moduleInfo: ModuleInfo, context: TriggerContext, takenNames: Set<string>): PendingRequire {
+    const { definedServices, definedVariables, currentScriptPath, declaredNames } = context;
+    const varName = getUniqueVariableName(moduleInfo, takenNames, this.config);
+    let requirePath = buildRequirePath(moduleInfo.instancePath, definedServices, definedVariables, currentScriptPath, this.config);
+    let missingService: string | undefined;
+
+    if (this.config.declareMissingServices && this.config.pathStyle !== 'absolute') {
+      const match = /^game(?:\.([a-zA-Z_]\w*)|:GetService\("(\w+)"\))(.*)$/.exec(requirePath);
+      const service = match && (match[1] || match[2]);
+      // Any identifier with the service's name that isn't the service would be shadowed
+      if (service && !declaredNames.has(service)) {
+        missingService = service;
+        requirePath = service + match![3];
+      }
+    }
+
+    return { varName, requirePath, statement: `local ${varName} = require(${requirePath})`, missingService };
+  }
+
+  /**
+   * Get the GetService declarations needed by a set of requires
+   */
+  private getServiceDeclarations(requires: PendingRequire[]): string[] {
+    const services = new Set(requires.map(r => r.missingService).filter((s): s is string => s !== undefined));
+    return [...services].map(service => `local ${service} = game:GetService("${service}")`);
+  }
+
+  /**
+   * Set the item's edits for the configured placement: the statements replace the trigger,
+   * or go into the require block in sorted order while the trigger line is removed (or replaced with the variable name)
+   */
+  private applyPlacement(
+    item: vscode.CompletionItem,
+    statements: PendingRequire[],
+    context: TriggerContext
+  ): void {
+    const { document, position, leadingWhitespace, blockLines } = context;
+    const triggerRange = new vscode.Range(new vscode.Position(position.line, leadingWhitespace.length), position);
+    const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+
+    // Service declarations go first so they precede requires inserted at the same line
+    item.additionalTextEdits = this.getServiceDeclarationEdits(statements, blockLines, eol);
+
+    if (this.config.requirePlacement === 'cursor') {
+      item.range = triggerRange;
+      item.insertText = this.createRequireSnippet(statements);
+      return;
+    }
+
+    const replaceWithName = this.config.requirePlacement === 'blockAndName' && statements.length === 1;
+    const atTrigger: PendingRequire[] = [];
+    const insertions = new Map<number, { statements: string[]; needsSeparator: boolean }>();
+
+    const sorted = [...statements].sort((a, b) => a.varName.toLowerCase().localeCompare(b.varName.toLowerCase()));
+    for (const pending of sorted) {
+      const point = getSortedRequireInsertionPoint(blockLines, pending.varName);
+      // The trigger already sits where the require belongs
+      if (point.line === position.line && !replaceWithName) {
+        atTrigger.push(pending);
+        continue;
+      }
+      const insertion = insertions.get(point.line) ?? { statements: [], needsSeparator: false };
+      insertion.statements.push(pending.statement);
+      insertion.needsSeparator = insertion.needsSeparator || point.needsSeparator;
+      insertions.set(point.line, insertion);
+    }
+
+    for (const [line, insertion] of insertions) {
+      item.additionalTextEdits.push(vscode.TextEdit.insert(
+        new vscode.Position(line, 0),
+        insertion.statements.join(eol) + eol + (insertion.needsSeparator ? eol : '')
+      ));
+    }
+
+    if (replaceWithName) {
+      item.range = triggerRange;
+      item.insertText = statements[0].varName;
+      return;
+    }
+
+    item.range = new vscode.Range(new vscode.Position(position.line, 0), position);
+    item.insertText = this.createRequireSnippet(atTrigger);
+
+    // Remove the now empty trigger line along with its line break
+    const lineEnd = document.lineAt(position.line).range.end;
+    if (atTrigger.length === 0 && position.isEqual(lineEnd) && position.line + 1 < document.lineCount) {
+      item.additionalTextEdits.push(vscode.TextEdit.delete(new vscode.Range(lineEnd, new vscode.Position(position.line + 1, 0))));
+    }
+  }
+
+  /**
+   * Create a snippet of require statements with each variable name as a tabstop.
+   * Lines after the first are indented like the trigger line by the editor.
+   */
+  private createRequireSnippet(statements: PendingRequire[]): vscode.SnippetString {
+    const snippet = new vscode.SnippetString();
+    statements.forEach((pending, index) => {
+      if (index > 0) snippet.appendText('\n');
+      snippet.appendText('local ');
+      snippet.appendPlaceholder(pending.varName);
+      snippet.appendText(` = require(${pending.requirePath})`);
+    });
+    return snippet;
+  }
+
+  /**
+   * Create edits adding the missing service declarations to the service block in the configured order
+   */
+  private getServiceDeclarationEdits(statements: PendingRequire[], blockLines: string[], eol: string): vscode.TextEdit[] {
+    const services = [...new Set(statements.map(s => s.missingService).filter((s): s is string => s !== undefined))]
+      .sort((a, b) => compareServiceNames(a, b, this.config.serviceOrder));
+
+    const insertions = new Map<number, { declarations: string[]; needsSeparator: boolean }>();
+    for (const service of services) {
+      const point = getServiceInsertionPoint(blockLines, service, this.config.serviceOrder);
+      const insertion = insertions.get(point.line) ?? { declarations: [], needsSeparator: false };
+      insertion.declarations.push(`local ${service} = game:GetService("${service}")`);
+      insertion.needsSeparator = insertion.needsSeparator || point.needsSeparator;
+      insertions.set(point.line, insertion);
+    }
+
+    return [...insertions].map(([line, insertion]) =>
+      vscode.TextEdit.insert(
+        new vscode.Position(line, 0),
+        insertion.declarations.join(eol) + eol + (insertion.needsSeparator ? eol : '')
+      )
+    );
+  }
+
   public updateConfig(config: ExtensionConfig): void {
     this.config = config;
   }
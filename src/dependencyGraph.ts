@@ -0,0 +1,297 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { ModuleIndexer } from './moduleIndexer';
+import { PathResolver } from './pathResolver';
+import { ModuleIndexChange } from './types';
+import { findRequireCalls, extractDefinedVariables, resolveRequireExpression, RequireCall } from './requireParser';
+import { logger } from './logger';
+
+/** Number of files read at once while updating the graph */
+const READ_BATCH_SIZE = 50;
+
+/**
+ * A require call in a file, resolved against the module index
+ */
+export interface ResolvedRequire {
+  /** File containing the require */
+  fromPath: string;
+  call: RequireCall;
+  /** Instance path the argument refers to, or null if it can't be determined statically */
+  instancePath: string | null;
+  /** File of the required module, or null if no indexed module matches */
+  toPath: string | null;
+}
+
+/**
+ * Record a file's requires and add it as a dependent of each module they resolve to
+ */
+function addRequires(
+  requiresByFile: Map<string, ResolvedRequire[]>,
+  dependentsByFile: Map<string, Set<string>>,
+  fsPath: string,
+  requires: ResolvedRequire[]
+): void {
+  requiresByFile.set(fsPath, requires);
+  for (const require of requires) {
+    if (!require.toPath) continue;
+    let dependents = dependentsByFile.get(require.toPath);
+    if (!dependents) {
+      dependents = new Set();
+      dependentsByFile.set(require.toPath, dependents);
+    }
+    dependents.add(fsPath);
+  }
+}
+
+/**
+ * Tracks which files require which modules across the workspace
+ */
+export class DependencyGraph {
+  /** Requires made by each file, including unresolved ones */
+  private requiresByFile: Map<string, ResolvedRequire[]> = new Map();
+  /** Files requiring each module file */
+  private dependentsByFile: Map<string, Set<string>> = new Map();
+  /** Index changes waiting to be applied, in the order they happened */
+  private pendingChanges: ModuleIndexChange[] = [];
+  private updating: Promise<void> | null = null;
+  private disposables: vscode.Disposable[] = [];
+  private changeEmitter = new vscode.EventEmitter<void>();
+
+  /** Fires whenever the graph is updated */
+  public readonly onDidChange = this.changeEmitter.event;
+
+  constructor(
+    private moduleIndexer: ModuleIndexer,
+    private pathResolver: PathResolver
+  ) {}
+
+  /**
+   * Build the graph and keep it in sync with the module index
+   */
+  public async initialize(): Promise<void> {
+    this.disposables.push(
+      this.moduleIndexer.onDidChange(change => {
+        this.enqueue(change).catch(error => logger.error('Error updating dependency graph', error));
+      })
+    );
+    await this.rebuild();
+  }
+
+  /**
+   * Rescan every Luau file in the workspace, after any updates already queued
+   */
+  public rebuild(): Promise<void> {
+    return this.enqueue({ kind: 'rebuilt' });
+  }
+
+  /**
+   * Queue an index change. Changes are applied one batch at a time, so updates never overlap,
+   * and changes arriving while a batch is applied are batched together.
+   * @returns A promise resolving once the queue is empty
+   */
+  private enqueue(change: ModuleIndexChange): Promise<void> {
+    this.pendingChanges.push(change);
+    if (!this.updating) {
+      this.updating = this.processChanges().finally(() => {
+        this.updating = null;
+      });
+    }
+    return this.updating;
+  }
+
+  private async processChanges(): Promise<void> {
+    while (this.pendingChanges.length > 0) {
+      const changes = this.pendingChanges.splice(0);
+      // A full scan reads every file afresh, covering the other changes in the batch
+      if (changes.some(change => change.kind === 'rebuilt')) {
+        await this.scanWorkspace();
+      } else {
+        await this.applyFileChanges(changes as Exclude<ModuleIndexChange, { kind: 'rebuilt' }>[]);
+      }
+    }
+  }
+
+  private async scanWorkspace(): Promise<void> {
+    const startTime = Date.now();
+
+    try {
+      const files = await vscode.workspace.findFiles(
+        '**/*.luau',
+        '{**/node_modules/**,**/_Index/**}'
+      );
+
+      // Build into new maps so the previous graph stays complete until the scan finishes
+      const requiresByFile = new Map<string, ResolvedRequire[]>();
+      const dependentsByFile = new Map<string, Set<string>>();
+
+      for (const file of files) {
+        const requires = await this.readRequires(file.fsPath);
+        if (requires) {
+          addRequires(requiresByFile, dependentsByFile, file.fsPath, requires);
+        }
+      }
+
+      this.requiresByFile = requiresByFile;
+      this.dependentsByFile = dependentsByFile;
+
+      const edgeCount = [...requiresByFile.values()].reduce((sum, r) => sum + r.length, 0);
+      logger.info(`Built dependency graph: ${requiresByFile.size} files, ${edgeCount} requires in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      logger.error('Error building dependency graph', error);
+    }
+
+    this.changeEmitter.fire();
+  }
+
+  /**
+   * Parse and resolve the requires of files, replacing their previous entries
+   */
+  private async scanFiles(fsPaths: string[]): Promise<void> {
+    for (let start = 0; start < fsPaths.length; start += READ_BATCH_SIZE) {
+      const batch = fsPaths.slice(start, start + READ_BATCH_SIZE);
+      const results = await Promise.all(batch.map(fsPath => this.readRequires(fsPath)));
+      batch.forEach((fsPath, i) => {
+        this.removeFile(fsPath);
+        const requires = results[i];
+        if (requires) {
+          addRequires(this.requiresByFile, this.dependentsByFile, fsPath, requires);
+        }
+      });
+    }
+  }
+
+  /**
+   * Read a file and resolve its requires against the module index
+   * @returns The requires, or null if the file can't be read
+   */
+  private async readRequires(fsPath: string): Promise<ResolvedRequire[] | null> {
+    let source: string;
+    try {
+      source = await fs.promises.readFile(fsPath, 'utf-8');
+    } catch (error) {
+      return null;
+    }
+
+    const currentScriptPath = this.pathResolver.resolveInstancePath(fsPath);
+    const definedVariables = extractDefinedVariables(source, currentScriptPath);
+    return findRequireCalls(source).map(call => {
+      const instancePath = resolveRequireExpression(call.expression, definedVariables, currentScriptPath);
+      const target = instancePath ? this.moduleIndexer.findByInstancePath(instancePath) : undefined;
+      return {
+        fromPath: fsPath,
+        call,
+        instancePath,
+        toPath: target?.fsPath ?? null,
+      };
+    });
+  }
+
+  /**
+   * Remove a file's outgoing edges
+   */
+  private removeFile(fsPath: string): void {
+    const previous = this.requiresByFile.get(fsPath);
+    if (!previous) return;
+
+    for (const require of previous) {
+      if (require.toPath) {
+        this.dependentsByFile.get(require.toPath)?.delete(fsPath);
+      }
+    }
+    this.requiresByFile.delete(fsPath);
+  }
+
+  /**
+   * Apply a batch of file changes incrementally, reading each affected file once
+   */
+  private async applyFileChanges(changes: Exclude<ModuleIndexChange, { kind: 'rebuilt' }>[]): Promise<void> {
+    const toScan = new Set<string>();
+    const createdPaths = new Set<string>();
+
+    for (const change of changes) {
+      if (change.kind === 'deleted') {
+        for (const dependent of this.dependentsByFile.get(change.fsPath) ?? []) {
+          toScan.add(dependent);
+        }
+        this.removeFile(change.fsPath);
+        this.dependentsByFile.delete(change.fsPath);
+        toScan.delete(change.fsPath);
+        continue;
+      }
+
+      if (change.fsPath.toLowerCase().endsWith('.luau')) {
+        toScan.add(change.fsPath);
+      }
+      const created = change.kind === 'created' ? this.moduleIndexer.findByFsPath(change.fsPath) : undefined;
+      if (created) {
+        createdPaths.add(created.instancePath);
+      }
+    }
+
+    // A new module can satisfy requires that previously didn't resolve
+    if (createdPaths.size > 0) {
+      for (const [fsPath, requires] of this.requiresByFile) {
+        if (requires.some(r => r.instancePath && !r.toPath && createdPaths.has(r.instancePath))) {
+          toScan.add(fsPath);
+        }
+      }
+    }
+
+    try {
+      await this.scanFiles([...toScan]);
+    } catch (error) {
+      logger.error('Error updating dependency graph', error);
+    }
+
+    this.changeEmitter.fire();
+  }
+
+  /**
+   * Get the requires made by a file (resolved and unresolved)
+   */
+  public getRequires(fsPath: string): ResolvedRequire[] {
+    return this.requiresByFile.get(fsPath) ?? [];
+  }
+
+  /**
+   * Get the resolved requires made by a file
+   */
+  public getDependencies(fsPath: string): ResolvedRequire[] {
+    return this.getRequires(fsPath).filter(r => r.toPath !== null);
+  }
+
+  /**
+   * Get every require call (in other files) that targets a module file
+   */
+  public getDependents(fsPath: string): ResolvedRequire[] {
+    const result: ResolvedRequire[] = [];
+    for (const dependent of this.dependentsByFile.get(fsPath) ?? []) {
+      for (const require of this.getRequires(dependent)) {
+        if (require.toPath === fsPath) {
+          result.push(require);
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Get every file that has been scanned
+   */
+  public getFiles(): string[] {
+    return [...this.requiresByFile.keys()];
+  }
+
+  /**
+   * Dispose resources
+   */
+  public dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+    this.changeEmitter.dispose();
+    this.requiresByFile.clear();
+    this.dependentsByFile.clear();
+  }
+}
@@ -0,0 +1,445 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { DependencyGraph } from './dependencyGraph';
+import { ModuleIndexer } from './moduleIndexer';
+import { PathResolver } from './pathResolver';
+import { getModuleTag } from './moduleTags';
+import { getFileRealm, getInstanceRealm } from './realm';
+import { Realm } from './types';
+import { logger } from './logger';
+
+interface GraphNode {
+  id: string;
+  name: string;
+  instancePath: string;
+  relativePath: string;
+  realm: Realm;
+  tag: string;
+  dependents: number;
+}
+
+interface GraphEdge {
+  from: string;
+  to: string;
+  /** Shared or client code requiring a server-only module */
+  leak: boolean;
+}
+
+/**
+ * Webview showing the require graph of the workspace or of one module's neighborhood
+ */
+export class DependencyGraphPanel {
+  private static current: DependencyGraphPanel | undefined;
+
+  private disposables: vscode.Disposable[] = [];
+
+  private constructor(
+    private panel: vscode.WebviewPanel,
+    private graph: DependencyGraph,
+    private moduleIndexer: ModuleIndexer,
+    private pathResolver: PathResolver,
+    private focusPath: string | undefined
+  ) {
+    this.panel.webview.html = this.getHtml();
+
+    this.disposables.push(
+      this.panel.onDidDispose(() => this.dispose()),
+      this.panel.webview.onDidReceiveMessage(message => {
+        this.handleMessage(message).catch(error => logger.error('Failed to handle dependency graph message', error));
+      }),
+      this.graph.onDidChange(() => this.postGraph())
+    );
+  }
+
+  /**
+   * Open the graph panel, or reveal and refocus the existing one
+   * @param focusPath Show only this file and the files directly connected to it
+   */
+  public static show(
+    graph: DependencyGraph,
+    moduleIndexer: ModuleIndexer,
+    pathResolver: PathResolver,
+    focusPath?: string
+  ): void {
+    const title = focusPath
+      ? `Dependencies: ${moduleIndexer.findByFsPath(focusPath)?.name ?? path.basename(focusPath)}`
+      : 'Dependency Graph';
+
+    if (DependencyGraphPanel.current) {
+      const existing = DependencyGraphPanel.current;
+      existing.focusPath = focusPath;
+      existing.panel.title = title;
+      existing.panel.reveal();
+      existing.postGraph();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      'robloxSuperRequire.dependencyGraph',
+      title,
+      vscode.ViewColumn.Beside,
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+    DependencyGraphPanel.current = new DependencyGraphPanel(panel, graph, moduleIndexer, pathResolver, focusPath);
+  }
+
+  private async handleMessage(message: { type: string; id?: string }): Promise<void> {
+    if (message.type === 'ready') {
+      this.postGraph();
+    } else if (message.type === 'open' && message.id) {
+      await vscode.window.showTextDocument(vscode.Uri.file(message.id), { viewColumn: vscode.ViewColumn.One });
+    }
+  }
+
+  /**
+   * Send the current graph data to the webview
+   */
+  private postGraph(): void {
+    const { nodes, edges } = this.collectGraph();
+    this.panel.webview.postMessage({ type: 'graph', nodes, edges, focus: this.focusPath ?? null });
+  }
+
+  /**
+   * Gather nodes and edges, limited to the focus file's neighborhood when set
+   */
+  private collectGraph(): { nodes: GraphNode[]; edges: GraphEdge[] } {
+    let files = this.graph.getFiles();
+
+    if (this.focusPath) {
+      const neighborhood = new Set<string>([this.focusPath]);
+      for (const require of this.graph.getDependencies(this.focusPath)) neighborhood.add(require.toPath!);
+      for (const require of this.graph.getDependents(this.focusPath)) neighborhood.add(require.fromPath);
+      files = [...neighborhood];
+    }
+
+    const included = new Set(files);
+    const nodes = new Map<string, GraphNode>();
+    for (const fsPath of files) {
+      nodes.set(fsPath, this.createNode(fsPath));
+    }
+
+    const edges: GraphEdge[] = [];
+    const seen = new Set<string>();
+    for (const fsPath of files) {
+      for (const require of this.graph.getDependencies(fsPath)) {
+        const target = require.toPath!;
+        const key = `${fsPath}\0${target}`;
+        if ((this.focusPath && !included.has(target)) || seen.has(key)) continue;
+        seen.add(key);
+
+        if (!nodes.has(target)) nodes.set(target, this.createNode(target));
+        const fromRealm = nodes.get(fsPath)!.realm;
+        edges.push({ from: fsPath, to: target, leak: fromRealm !== 'server' && nodes.get(target)!.realm === 'server' });
+      }
+    }
+
+    for (const edge of edges) {
+      nodes.get(edge.to)!.dependents++;
+    }
+
+    return { nodes: [...nodes.values()], edges };
+  }
+
+  private createNode(fsPath: string): GraphNode {
+    const module = this.moduleIndexer.findByFsPath(fsPath);
+    const instancePath = module?.instancePath ?? this.pathResolver.resolveInstancePath(fsPath);
+    return {
+      id: fsPath,
+      name: module?.name ?? path.basename(fsPath).replace(/(\.(server|client))?\.luau?$/i, ''),
+      instancePath,
+      relativePath: vscode.workspace.asRelativePath(fsPath),
+      realm: module ? getInstanceRealm(instancePath) : getFileRealm(fsPath, instancePath),
+      tag: module ? getModuleTag(module) : 'Script',
+      dependents: 0,
+    };
+  }
+
+  private getHtml(): string {
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const csp = `default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="${csp}">
+<style>
+  html, body { margin: 0; padding: 0; height: 100%; overflow: hidden; font-family: var(--vscode-font-family); color: var(--vscode-foreground); background: var(--vscode-editor-background); }
+  #toolbar { display: flex; gap: 8px; align-items: center; padding: 6px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+  #toolbar input, #toolbar select { background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); padding: 2px 4px; }
+  #filter { flex: 1; }
+  #legend { display: flex; gap: 10px; flex-wrap: wrap; padding: 4px 8px; font-size: 11px; }
+  #legend span::before { content: ''; display: inline-block; width: 9px; height: 9px; border-radius: 50%; margin-right: 4px; background: var(--swatch); }
+  #tooltip { position: absolute; pointer-events: none; background: var(--vscode-editorHoverWidget-background); border: 1px solid var(--vscode-editorHoverWidget-border); padding: 4px 6px; font-size: 12px; display: none; white-space: nowrap; }
+  canvas { display: block; cursor: grab; }
+</style>
+</head>
+<body>
+<div id="toolbar">
+  <input id="filter" placeholder="Filter by instance path prefix, e.g. game.ReplicatedStorage.Shared">
+  <label>Color by <select id="colorBy"><option value="realm">Realm</option><option value="tag">Category</option></select></label>
+  <span id="stats"></span>
+</div>
+<div id="legend"></div>
+<canvas id="canvas"></canvas>
+<div id="tooltip"></div>
+<script nonce="${nonce}">
+(function () {
+  const vscode = acquireVsCodeApi();
+  const canvas = document.getElementById('canvas');
+  const ctx = canvas.getContext('2d');
+  const tooltip = document.getElementById('tooltip');
+  const filterInput = document.getElementById('filter');
+  const colorBy = document.getElementById('colorBy');
+  const legend = document.getElementById('legend');
+  const stats = document.getElementById('stats');
+
+  const REALM_COLORS = { server: '#e06c75', client: '#61afef', shared: '#98c379' };
+  const TAG_COLORS = { Wally: '#c678dd', Service: '#e5c07b', Controller: '#56b6c2', Component: '#d19a66', Utility: '#abb2bf', Server: '#e06c75', Client: '#61afef', Shared: '#98c379', Module: '#7f848e', Script: '#5c6370' };
+
+  let allNodes = [], allEdges = [], focus = null;
+  let nodes = [], edges = [], byId = new Map();
+  let view = { x: 0, y: 0, scale: 1 };
+  let hovered = null, ticks = 0, frameRequested = false;
+  let textColor = getComputedStyle(document.body).color;
+
+  function colorOf(node) {
+    return colorBy.value === 'realm' ? REALM_COLORS[node.realm] : (TAG_COLORS[node.tag] || '#7f848e');
+  }
+  function radiusOf(node) { return 4 + Math.sqrt(node.dependents) * 2; }
+
+  function updateLegend() {
+    const colors = colorBy.value === 'realm' ? REALM_COLORS : TAG_COLORS;
+    legend.innerHTML = '';
+    for (const [label, color] of Object.entries(colors)) {
+      const span = document.createElement('span');
+      span.style.setProperty('--swatch', color);
+      span.textContent = label;
+      legend.appendChild(span);
+    }
+    const leak = document.createElement('span');
+    leak.style.setProperty('--swatch', '#ff5555');
+    leak.textContent = 'Edge: requires server-only module';
+    legend.appendChild(leak);
+  }
+
+  function applyFilter() {
+    const prefix = filterInput.value.trim().toLowerCase();
+    const previous = byId;
+    nodes = allNodes.filter(n => !prefix || n.instancePath.toLowerCase().startsWith(prefix) || n.id === focus);
+    byId = new Map(nodes.map(n => [n.id, n]));
+    edges = allEdges.filter(e => byId.has(e.from) && byId.has(e.to));
+
+    // Keep positions of nodes that stay visible so the layout doesn't jump
+    const spread = Math.sqrt(nodes.length) * 30 + 50;
+    for (const node of nodes) {
+      const old = previous.get(node.id);
+      node.x = old ? old.x : (Math.random() - 0.5) * spread;
+      node.y = old ? old.y : (Math.random() - 0.5) * spread;
+      node.vx = 0; node.vy = 0;
+    }
+    stats.textContent = nodes.length + ' modules, ' + edges.length + ' requires';
+    ticks = 300;
+    requestDraw();
+  }
+
+  // Force layout: springs along edges, repulsion between nearby nodes (grid bucketed), gravity to the center
+  function step() {
+    const cell = 90;
+    const grid = new Map();
+    for (const n of nodes) {
+      const key = Math.floor(n.x / cell) + ',' + Math.floor(n.y / cell);
+      if (!grid.has(key)) grid.set(key, []);
+      grid.get(key).push(n);
+    }
+    for (const n of nodes) {
+      const cx = Math.floor(n.x / cell), cy = Math.floor(n.y / cell);
+      for (let dx = -1; dx <= 1; dx++) for (let dy = -1; dy <= 1; dy++) {
+        const bucket = grid.get((cx + dx) + ',' + (cy + dy));
+        if (!bucket) continue;
+        for (const m of bucket) {
+          if (m === n) continue;
+          let ddx = n.x - m.x, ddy = n.y - m.y;
+          let d2 = ddx * ddx + ddy * ddy;
+          if (d2 < 0.01) { ddx = Math.random() - 0.5; ddy = Math.random() - 0.5; d2 = 0.5; }
+          if (d2 > cell * cell) continue;
+          const force = 400 / d2;
+          n.vx += ddx * force; n.vy += ddy * force;
+        }
+      }
+      n.vx -= n.x * 0.002; n.vy -= n.y * 0.002;
+    }
+    for (const e of edges) {
+      const a = byId.get(e.from), b = byId.get(e.to);
+      const ddx = b.x - a.x, ddy = b.y - a.y;
+      const dist = Math.sqrt(ddx * ddx + ddy * ddy) || 1;
+      const force = (dist - 60) * 0.01;
+      const fx = ddx / dist * force, fy = ddy / dist * force;
+      a.vx += fx; a.vy += fy; b.vx -= fx; b.vy -= fy;
+    }
+    for (const n of nodes) {
+      n.vx *= 0.6; n.vy *= 0.6;
+      n.x += Math.max(-20, Math.min(20, n.vx));
+      n.y += Math.max(-20, Math.min(20, n.vy));
+    }
+  }
+
+  function toScreen(n) {
+    return { x: (n.x + view.x) * view.scale + canvas.width / 2, y: (n.y + view.y) * view.scale + canvas.height / 2 };
+  }
+
+  function draw() {
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const neighbors = new Set();
+    if (hovered) {
+      for (const e of edges) {
+        if (e.from === hovered.id) neighbors.add(e.to);
+        if (e.to === hovered.id) neighbors.add(e.from);
+      }
+    }
+
+    for (const e of edges) {
+      const a = toScreen(byId.get(e.from)), b = toScreen(byId.get(e.to));
+      const active = hovered && (e.from === hovered.id || e.to === hovered.id);
+      ctx.strokeStyle = e.leak ? '#ff5555' : active ? '#d7dae0' : 'rgba(128,128,128,0.35)';
+      ctx.lineWidth = e.leak || active ? 1.5 : 1;
+      ctx.beginPath(); ctx.moveTo(a.x, a.y); ctx.lineTo(b.x, b.y); ctx.stroke();
+
+      // Arrow head towards the required module
+      const angle = Math.atan2(b.y - a.y, b.x - a.x);
+      const r = radiusOf(byId.get(e.to)) * view.scale;
+      const tipX = b.x - Math.cos(angle) * r, tipY = b.y - Math.sin(angle) * r;
+      ctx.beginPath();
+      ctx.moveTo(tipX, tipY);
+      ctx.lineTo(tipX - Math.cos(angle - 0.4) * 6, tipY - Math.sin(angle - 0.4) * 6);
+      ctx.lineTo(tipX - Math.cos(angle + 0.4) * 6, tipY - Math.sin(angle + 0.4) * 6);
+      ctx.fillStyle = ctx.strokeStyle; ctx.fill();
+    }
+
+    ctx.font = '11px sans-serif';
+    for (const n of nodes) {
+      const p = toScreen(n);
+      const r = radiusOf(n) * view.scale;
+      const dimmed = hovered && n !== hovered && !neighbors.has(n.id);
+      ctx.globalAlpha = dimmed ? 0.3 : 1;
+      ctx.fillStyle = colorOf(n);
+      ctx.beginPath(); ctx.arc(p.x, p.y, r, 0, Math.PI * 2); ctx.fill();
+      if (n.id === focus) { ctx.strokeStyle = '#ffffff'; ctx.lineWidth = 2; ctx.stroke(); }
+      if (n === hovered || neighbors.has(n.id) || n.dependents >= 5 || view.scale > 1.5) {
+        ctx.fillStyle = textColor;
+        ctx.fillText(n.name, p.x + r + 3, p.y + 4);
+      }
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  // Frames run while the layout settles; after that only input and new data redraw
+  function frame() {
+    frameRequested = false;
+    if (ticks > 0) { step(); ticks--; }
+    draw();
+    if (ticks > 0) requestDraw();
+  }
+
+  function requestDraw() {
+    if (frameRequested) return;
+    frameRequested = true;
+    requestAnimationFrame(frame);
+  }
+
+  function resize() {
+    canvas.width = window.innerWidth;
+    canvas.height = window.innerHeight - canvas.getBoundingClientRect().top;
+    requestDraw();
+  }
+
+  function nodeAt(clientX, clientY) {
+    const rect = canvas.getBoundingClientRect();
+    const x = clientX - rect.left, y = clientY - rect.top;
+    let best = null, bestDist = Infinity;
+    for (const n of nodes) {
+      const p = toScreen(n);
+      const d = Math.hypot(p.x - x, p.y - y);
+      if (d <= radiusOf(n) * view.scale + 3 && d < bestDist) { best = n; bestDist = d; }
+    }
+    return best;
+  }
+
+  let dragging = null;
+  canvas.addEventListener('mousedown', e => { dragging = { x: e.clientX, y: e.clientY, moved: false }; });
+  window.addEventListener('mouseup', e => {
+    if (dragging && !dragging.moved) {
+      const node = nodeAt(e.clientX, e.clientY);
+      if (node) vscode.postMessage({ type: 'open', id: node.id });
+    }
+    dragging = null;
+  });
+  canvas.addEventListener('mousemove', e => {
+    if (dragging) {
+      const dx = e.clientX - dragging.x, dy = e.clientY - dragging.y;
+      if (Math.abs(dx) + Math.abs(dy) > 2) dragging.moved = true;
+      view.x += dx / view.scale; view.y += dy / view.scale;
+      dragging.x = e.clientX; dragging.y = e.clientY;
+      requestDraw();
+      return;
+    }
+    const previousHovered = hovered;
+    hovered = nodeAt(e.clientX, e.clientY);
+    if (hovered !== previousHovered) requestDraw();
+    if (hovered) {
+      tooltip.style.display = 'block';
+      tooltip.style.left = (e.clientX + 12) + 'px';
+      tooltip.style.top = (e.clientY + 12) + 'px';
+      tooltip.textContent = hovered.name + ' · ' + hovered.tag + ' · ' + hovered.realm + ' — ' + hovered.instancePath + ' (required by ' + hovered.dependents + ')';
+    } else {
+      tooltip.style.display = 'none';
+    }
+    canvas.style.cursor = hovered ? 'pointer' : 'grab';
+  });
+  canvas.addEventListener('wheel', e => {
+    e.preventDefault();
+    view.scale = Math.max(0.1, Math.min(5, view.scale * (e.deltaY < 0 ? 1.1 : 0.9)));
+    requestDraw();
+  }, { passive: false });
+
+  filterInput.addEventListener('input', applyFilter);
+  colorBy.addEventListener('change', () => { updateLegend(); requestDraw(); });
+  window.addEventListener('resize', resize);
+
+  // VS Code swaps the body's theme class when the color theme changes
+  new MutationObserver(() => {
+    textColor = getComputedStyle(document.body).color;
+    requestDraw();
+  }).observe(document.body, { attributes: true, attributeFilter: ['class'] });
+
+  window.addEventListener('message', event => {
+    const message = event.data;
+    if (message.type !== 'graph') return;
+    allNodes = message.nodes;
+    allEdges = message.edges;
+    focus = message.focus;
+    applyFilter();
+  });
+
+  resize();
+  updateLegend();
+  vscode.postMessage({ type: 'ready' });
+})();
+</script>
+</body>
+</html>`;
+  }
+
+  /**
+   * Dispose resources
+   */
+  public dispose(): void {
+    DependencyGraphPanel.current = undefined;
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+    this.panel.dispose();
+  }
+}
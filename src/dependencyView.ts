@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DependencyGraph, ResolvedRequire } from './dependencyGraph';
+import { ModuleIndexer } from './moduleIndexer';
+
+interface LocationQuickPickItem extends vscode.QuickPickItem {
+  fsPath?: string;
+  range?: vscode.Range;
+}
+
+/**
+ * Display name for a file: its module name if indexed, otherwise the file name
+ */
+function getDisplayName(fsPath: string, moduleIndexer: ModuleIndexer): string {
+  return moduleIndexer.findByFsPath(fsPath)?.name ?? path.basename(fsPath);
+}
+
+/**
+ * Show a quick pick listing what a file requires and which files require it
+ */
+export async function showDependencyQuickPick(
+  document: vscode.TextDocument,
+  graph: DependencyGraph,
+  moduleIndexer: ModuleIndexer
+): Promise<void> {
+  const fsPath = document.uri.fsPath;
+  const requires = graph.getRequires(fsPath);
+  const dependents = graph.getDependents(fsPath);
+
+  const items: LocationQuickPickItem[] = [];
+
+  items.push({ label: `Requires (${requires.length})`, kind: vscode.QuickPickItemKind.Separator });
+  for (const require of requires) {
+    items.push(toRequireItem(require, moduleIndexer));
+  }
+
+  items.push({ label: `Required by (${dependents.length})`, kind: vscode.QuickPickItemKind.Separator });
+  for (const dependent of dependents) {
+    items.push({
+      label: `$(references) ${getDisplayName(dependent.fromPath, moduleIndexer)}`,
+      description: vscode.workspace.asRelativePath(dependent.fromPath),
+      detail: `Line ${dependent.call.line + 1}: require(${dependent.call.expression})`,
+      fsPath: dependent.fromPath,
+      range: dependent.call.callRange,
+    });
+  }
+
+  const picked = await vscode.window.showQuickPick(items, {
+    title: `Dependencies of ${getDisplayName(fsPath, moduleIndexer)}`,
+    placeHolder: 'Select a require to open it',
+    matchOnDescription: true,
+    matchOnDetail: true,
+  });
+
+  if (picked?.fsPath && picked.range) {
+    await vscode.window.showTextDocument(vscode.Uri.file(picked.fsPath), { selection: picked.range });
+  }
+}
+
+/**
+ * Quick pick item for an outgoing require. Resolved requires open the target module.
+ */
+function toRequireItem(require: ResolvedRequire, moduleIndexer: ModuleIndexer): LocationQuickPickItem {
+  if (!require.toPath) {
+    return {
+      label: `$(warning) ${require.call.expression}`,
+      description: require.instancePath ? 'module not found' : 'unresolved',
+      detail: `Line ${require.call.line + 1}`,
+      fsPath: require.fromPath,
+      range: require.call.callRange,
+    };
+  }
+
+  return {
+    label: `$(file-code) ${getDisplayName(require.toPath, moduleIndexer)}`,
+    description: require.instancePath ?? undefined,
+    detail: `Line ${require.call.line + 1}: require(${require.call.expression})`,
+    fsPath: require.toPath,
+    range: new vscode.Range(0, 0, 0, 0),
+  };
+}
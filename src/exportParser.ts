@@ -0,0 +1,202 @@
+import { ModuleExports, ModuleExport } from './types';
+import { stripComments, findClosingBracket, splitTableFields } from './luaSource';
+
+/**
+ * Parse what a module returns: the returned table's functions and fields, plus exported types
+ */
+export function parseModuleExports(source: string): ModuleExports {
+  const code = stripComments(source);
+  const exports: ModuleExports = { members: [], types: [] };
+
+  // export type Foo<T> = ...
+  const exportTypePattern = /^\s*export\s+type\s+([a-zA-Z_]\w*)(<[^>=]*>)?\s*=/gm;
+  let match;
+  while ((match = exportTypePattern.exec(code)) !== null) {
+    const typeName = match[1] + (match[2] || '');
+    if (!exports.types.includes(typeName)) {
+      exports.types.push(typeName);
+    }
+  }
+
+  // The module's top-level return is the last `return` at the start of a line
+  const returnPattern = /^return\b[ \t]*(.*)$/gm;
+  let returnMatch: RegExpExecArray | null = null;
+  while ((match = returnPattern.exec(code)) !== null) {
+    returnMatch = match;
+  }
+  if (!returnMatch) {
+    return exports;
+  }
+
+  const returned = returnMatch[1].trim();
+  const localFunctions = collectLocalFunctions(code);
+
+  // return { ... }
+  if (returned.startsWith('{')) {
+    const openIndex = returnMatch.index + returnMatch[0].indexOf('{');
+    addTableFields(code, openIndex, localFunctions, exports.members);
+    return exports;
+  }
+
+  // return Module (optionally with a type assertion: return Module :: Type)
+  const identMatch = /^([a-zA-Z_]\w*)\s*(?:::.*)?;?$/.exec(returned);
+  if (!identMatch) {
+    return exports;
+  }
+
+  const returnName = identMatch[1];
+  exports.returnName = returnName;
+
+  // local Module = { ... }
+  const tableDefPattern = new RegExp(`^local\\s+${returnName}\\s*(?::[^=]+)?=\\s*(?:setmetatable\\s*\\(\\s*)?\\{`, 'm');
+  const tableDef = tableDefPattern.exec(code);
+  if (tableDef) {
+    addTableFields(code, tableDef.index + tableDef[0].length - 1, localFunctions, exports.members);
+  }
+
+  // function Module.foo(...) / function Module:foo(...)
+  const functionPattern = new RegExp(`^function\\s+${returnName}([.:])([a-zA-Z_]\\w*)\\s*(<[^>]*>)?\\s*\\(([^)]*)\\)`, 'gm');
+  while ((match = functionPattern.exec(code)) !== null) {
+    addMember(exports.members, {
+      name: match[2],
+      kind: match[1] === ':' ? 'method' : 'function',
+      params: normalizeParams(match[4]),
+    });
+  }
+
+  // Module.foo = function(...) / Module.foo = value (top level only)
+  const assignPattern = new RegExp(`^${returnName}\\.([a-zA-Z_]\\w*)\\s*(?::[^=]+)?=\\s*(.*)$`, 'gm');
+  while ((match = assignPattern.exec(code)) !== null) {
+    addMember(exports.members, describeValue(match[1], match[2], localFunctions));
+  }
+
+  return exports;
+}
+
+/**
+ * Extract the comment block at the top of a module, skipping `--!` directives
+ * @returns The comment text without comment markers, or undefined if the file doesn't start with one
+ */
+export function parseDocComment(source: string, maxLines: number = 12): string | undefined {
+  const lines = source.split(/\r?\n/);
+  let i = 0;
+  while (i < lines.length && (lines[i].trim() === '' || lines[i].trim().startsWith('--!'))) {
+    i++;
+  }
+
+  const commentLines: string[] = [];
+  const blockStart = /^\s*--\[(=*)\[(.*)$/.exec(lines[i] ?? '');
+
+  if (blockStart) {
+    const close = `]${blockStart[1]}]`;
+    let rest = blockStart[2];
+    while (i < lines.length) {
+      const closeIndex = rest.indexOf(close);
+      if (closeIndex !== -1) {
+        commentLines.push(rest.substring(0, closeIndex));
+        break;
+      }
+      commentLines.push(rest);
+      i++;
+      rest = lines[i] ?? '';
+    }
+  } else {
+    while (i < lines.length && /^\s*--/.test(lines[i])) {
+      commentLines.push(lines[i].replace(/^\s*--+\s?/, ''));
+      i++;
+    }
+  }
+
+  const text = commentLines.slice(0, maxLines).join('\n').trim();
+  return text.length > 0 ? text : undefined;
+}
+
+/**
+ * Format a member for display, e.g. "Signal.new(name: string)" or "Signal:Fire(...)"
+ */
+export function formatExportSignature(member: ModuleExport, ownerName: string): string {
+  if (member.kind === 'method') {
+    // Methods defined with `self` as an explicit parameter are displayed with colon syntax
+    const params = member.params?.replace(/^\(self,?\s*/, '(') ?? '()';
+    return `${ownerName}:${member.name}${params}`;
+  }
+  if (member.kind === 'function') {
+    return `${ownerName}.${member.name}${member.params ?? '()'}`;
+  }
+  return `${ownerName}.${member.name}`;
+}
+
+/**
+ * Collect parameter lists of top-level `local function name(...)` definitions
+ */
+function collectLocalFunctions(code: string): Map<string, string> {
+  const functions = new Map<string, string>();
+  const pattern = /^local\s+function\s+([a-zA-Z_]\w*)\s*(<[^>]*>)?\s*\(([^)]*)\)/gm;
+  let match;
+  while ((match = pattern.exec(code)) !== null) {
+    functions.set(match[1], normalizeParams(match[3]));
+  }
+  return functions;
+}
+
+/**
+ * Add the named fields of the table constructor opening at `openIndex`
+ */
+function addTableFields(code: string, openIndex: number, localFunctions: Map<string, string>, members: ModuleExport[]): void {
+  const closeIndex = findClosingBracket(code, openIndex);
+  if (closeIndex === -1) {
+    return;
+  }
+
+  for (const field of splitTableFields(code.substring(openIndex + 1, closeIndex))) {
+    const fieldMatch = /^(?:([a-zA-Z_]\w*)|\[\s*["']([a-zA-Z_]\w*)["']\s*\])\s*=\s*([\s\S]*)$/.exec(field);
+    if (fieldMatch) {
+      addMember(members, describeValue(fieldMatch[1] || fieldMatch[2], fieldMatch[3], localFunctions));
+    }
+  }
+}
+
+/**
+ * Classify an assigned value as a function or a plain field
+ */
+function describeValue(name: string, value: string, localFunctions: Map<string, string>): ModuleExport {
+  const trimmed = value.trim();
+
+  const inlineFunction = /^function\s*(<[^>]*>)?\s*\(([^)]*)\)/.exec(trimmed);
+  if (inlineFunction) {
+    const params = normalizeParams(inlineFunction[2]);
+    const isMethod = /^self\b/.test(params.slice(1));
+    return { name, kind: isMethod ? 'method' : 'function', params };
+  }
+
+  const aliased = /^([a-zA-Z_]\w*)\s*$/.exec(trimmed);
+  if (aliased && localFunctions.has(aliased[1])) {
+    return { name, kind: 'function', params: localFunctions.get(aliased[1]) };
+  }
+
+  return { name, kind: 'field' };
+}
+
+/**
+ * Collapse whitespace in a parameter list and wrap it in parentheses
+ */
+function normalizeParams(params: string): string {
+  return `(${params.replace(/\s+/g, ' ').trim()})`;
+}
+
+/**
+ * Add a member, letting function definitions replace earlier plain field entries
+ */
+function addMember(members: ModuleExport[], member: ModuleExport): void {
+  // Metamethods and metatable plumbing (__index, __tostring, ...) aren't part of the API
+  if (member.name.startsWith('__')) {
+    return;
+  }
+
+  const existing = members.findIndex(m => m.name === member.name);
+  if (existing === -1) {
+    members.push(member);
+  } else if (members[existing].kind === 'field' && member.kind !== 'field') {
+    members[existing] = member;
+  }
+}
@@ -2,12 +2,38 @@ import * as vscode from 'vscode';
 import { ModuleIndexer } from './moduleIndexer';
 import { PathResolver } from './pathResolver';
 import { RequireCompletionProvider } from './completionProvider';
-import { ExtensionConfig } from './types';
+import { IndexCache } from './indexCache';
+import { DependencyGraph } from './dependencyGraph';
+import { showDependencyQuickPick } from './dependencyView';
+import { DependencyGraphPanel } from './dependencyGraphPanel';
+import { CircularRequireDiagnostics } from './circularRequireDiagnostics';
+import { BrokenRequireDiagnostics } from './brokenRequireDiagnostics';
+import { RealmDiagnostics } from './realmDiagnostics';
+import { RequireRenameHandler } from './renameHandler';
+import { MissingRequireCodeActions } from './missingRequireActions';
+import { RequireOrganizer } from './requireOrganizer';
+import { RequireResolver } from './requireResolver';
+import { FrecencyTracker } from './frecency';
+import { RequireNavigationProvider } from './requireNavigation';
+import { RequireHoverProvider } from './requireHover';
+import { RequireReferenceProvider } from './requireReferences';
+import { RequireCodeLensProvider } from './requireCodeLens';
+import { ExtensionConfig, RankingWeights, RequireGroup, RequirePlacement, VariableCase } from './types';
+import { DEFAULT_RANKING_WEIGHTS } from './ranking';
 import { logger } from './logger';
 
 let moduleIndexer: ModuleIndexer | undefined;
 let pathResolver: PathResolver | undefined;
 let completionProvider: RequireCompletionProvider | undefined;
+let dependencyGraph: DependencyGraph | undefined;
+let circularRequireDiagnostics: CircularRequireDiagnostics | undefined;
+let brokenRequireDiagnostics: BrokenRequireDiagnostics | undefined;
+let realmDiagnostics: RealmDiagnostics | undefined;
+let renameHandler: RequireRenameHandler | undefined;
+let missingRequireActions: MissingRequireCodeActions | undefined;
+let requireOrganizer: RequireOrganizer | undefined;
+let requireResolver: RequireResolver | undefined;
+let codeLensProvider: RequireCodeLensProvider | undefined;
 let disposables: vscode.Disposable[] = [];
 
 export async function activate(context: vscode.ExtensionContext) {
@@ -28,8 +54,10 @@ export async function activate(context: vscode.ExtensionContext) {
     pathResolver = new PathResolver(workspaceFolders);
     await pathResolver.initialize();
 
-    moduleIndexer = new ModuleIndexer(workspaceFolders, pathResolver);
-    completionProvider = new RequireCompletionProvider(moduleIndexer, config);
+    moduleIndexer = new ModuleIndexer(workspaceFolders, pathResolver, new IndexCache(context.storageUri));
+    requireResolver = new RequireResolver(moduleIndexer, pathResolver);
+    const frecency = new FrecencyTracker(context.workspaceState);
+    completionProvider = new RequireCompletionProvider(moduleIndexer, requireResolver, frecency, config);
 
     // Index modules with timeout
     await Promise.race([
@@ -37,6 +65,13 @@ export async function activate(context: vscode.ExtensionContext) {
       new Promise<void>((_, reject) => setTimeout(() => reject(new Error('Indexing timed out')), 30000))
     ]).catch(e => logger.error('Indexing failed', e));
 
+    // Build the dependency graph in the background so activation isn't blocked
+    dependencyGraph = new DependencyGraph(moduleIndexer, pathResolver);
+    circularRequireDiagnostics = new CircularRequireDiagnostics(dependencyGraph, moduleIndexer, config);
+    realmDiagnostics = new RealmDiagnostics(dependencyGraph, moduleIndexer, pathResolver, config);
+    renameHandler = new RequireRenameHandler(dependencyGraph, pathResolver, config);
+    dependencyGraph.initialize().catch(e => logger.error('Dependency graph failed', e));
+
     // Register completion provider
     const luaSelector: vscode.DocumentSelector = [
       { scheme: 'file', language: 'lua' },
@@ -45,16 +80,95 @@ export async function activate(context: vscode.ExtensionContext) {
       { scheme: 'file', pattern: '**/*.luau' }
     ];
 
-    const triggerChars = ':abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    const triggerChars = ':,@#/.abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    disposables.push(
+      vscode.languages.registerCompletionItemProvider(luaSelector, completionProvider, ...triggerChars),
+      vscode.commands.registerCommand('robloxSuperRequire.recordPick', (moduleFsPaths: string[], scopes: string[]) =>
+        frecency.recordPick(moduleFsPaths, scopes)
+      )
+    );
+
+    // Register broken require diagnostics and their quick fixes
+    brokenRequireDiagnostics = new BrokenRequireDiagnostics(moduleIndexer, pathResolver, config);
+    brokenRequireDiagnostics.updateAll();
+    disposables.push(
+      vscode.languages.registerCodeActionsProvider(luaSelector, brokenRequireDiagnostics, {
+        providedCodeActionKinds: BrokenRequireDiagnostics.providedCodeActionKinds
+      })
+    );
+
+    // Register "add missing require" quick fixes
+    missingRequireActions = new MissingRequireCodeActions(moduleIndexer, config);
     disposables.push(
-      vscode.languages.registerCompletionItemProvider(luaSelector, completionProvider, ...triggerChars)
+      vscode.languages.registerCodeActionsProvider(luaSelector, missingRequireActions, {
+        providedCodeActionKinds: MissingRequireCodeActions.providedCodeActionKinds
+      })
     );
 
+    // Register Organize Requires command and on-save action
+    requireOrganizer = new RequireOrganizer(moduleIndexer, pathResolver, config);
+    disposables.push(
+      vscode.commands.registerTextEditorCommand('robloxSuperRequire.organizeRequires', async (editor) => {
+        const edits = requireOrganizer?.computeEdits(editor.document) ?? [];
+        if (edits.length === 0) return;
+        await editor.edit(builder => edits.forEach(e => builder.replace(e.range, e.newText)));
+      }),
+      vscode.workspace.onWillSaveTextDocument(e => {
+        if (requireOrganizer?.shouldOrganizeOnSave(e.document)) {
+          e.waitUntil(Promise.resolve(requireOrganizer.computeEdits(e.document)));
+        }
+      })
+    );
+
+    // Register Go to Definition, document links and hovers for require arguments
+    const navigationProvider = new RequireNavigationProvider(requireResolver);
+    disposables.push(
+      vscode.languages.registerDefinitionProvider(luaSelector, navigationProvider),
+      vscode.languages.registerDocumentLinkProvider(luaSelector, navigationProvider),
+      vscode.languages.registerHoverProvider(luaSelector, new RequireHoverProvider(requireResolver, pathResolver)),
+      moduleIndexer.onDidChange(() => requireResolver?.clear()),
+      vscode.workspace.onDidCloseTextDocument(document => requireResolver?.forget(document))
+    );
+
+    // Register references to required modules and the Show Dependents command
+    const referenceProvider = new RequireReferenceProvider(dependencyGraph, requireResolver, moduleIndexer);
+    disposables.push(
+      vscode.languages.registerReferenceProvider(luaSelector, referenceProvider),
+      vscode.commands.registerTextEditorCommand('robloxSuperRequire.showDependents', async (editor) => {
+        const position = editor.selection.active;
+        const modulePath = referenceProvider.getModuleAt(editor.document, position)
+          ?? moduleIndexer?.findByFsPath(editor.document.uri.fsPath)?.fsPath;
+        if (!modulePath) {
+          vscode.window.showWarningMessage('The current file is not an indexed module');
+          return;
+        }
+
+        const locations = referenceProvider.getDependentLocations(modulePath);
+        if (locations.length === 0) {
+          vscode.window.showInformationMessage('No files require this module');
+          return;
+        }
+        await vscode.commands.executeCommand('editor.action.showReferences', editor.document.uri, position, locations);
+      })
+    );
+
+    // Register require count code lenses
+    codeLensProvider = new RequireCodeLensProvider(dependencyGraph, moduleIndexer, config);
+    disposables.push(vscode.languages.registerCodeLensProvider(luaSelector, codeLensProvider));
+
     // Watch for config changes
     disposables.push(
       vscode.workspace.onDidChangeConfiguration(e => {
         if (e.affectsConfiguration('robloxSuperRequire')) {
-          completionProvider?.updateConfig(loadConfiguration());
+          const newConfig = loadConfiguration();
+          completionProvider?.updateConfig(newConfig);
+          circularRequireDiagnostics?.updateConfig(newConfig);
+          brokenRequireDiagnostics?.updateConfig(newConfig);
+          realmDiagnostics?.updateConfig(newConfig);
+          renameHandler?.updateConfig(newConfig);
+          missingRequireActions?.updateConfig(newConfig);
+          requireOrganizer?.updateConfig(newConfig);
+          codeLensProvider?.updateConfig(newConfig);
           logger.info('Configuration updated');
         }
       })
@@ -95,6 +209,42 @@ export async function activate(context: vscode.ExtensionContext) {
       })
     );
 
+    // Register dependency listing command
+    disposables.push(
+      vscode.commands.registerCommand('robloxSuperRequire.showDependencies', async () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || !dependencyGraph || !moduleIndexer) {
+          vscode.window.showWarningMessage('Open a Luau file to show its dependencies');
+          return;
+        }
+        await showDependencyQuickPick(editor.document, dependencyGraph, moduleIndexer);
+      })
+    );
+
+    // Register dependency graph webview command
+    disposables.push(
+      vscode.commands.registerCommand('robloxSuperRequire.showDependencyGraph', async () => {
+        if (!dependencyGraph || !moduleIndexer || !pathResolver) return;
+
+        // Offer the current file's neighborhood when it takes part in the graph
+        let focusPath: string | undefined;
+        const editor = vscode.window.activeTextEditor;
+        if (editor && dependencyGraph.getFiles().includes(editor.document.uri.fsPath)) {
+          const scope = await vscode.window.showQuickPick(
+            [
+              { label: 'Current Module', description: 'Direct dependencies and dependents', neighborhood: true },
+              { label: 'Workspace', description: 'Every module and script', neighborhood: false },
+            ],
+            { placeHolder: 'Show the require graph of…' }
+          );
+          if (!scope) return;
+          if (scope.neighborhood) focusPath = editor.document.uri.fsPath;
+        }
+
+        DependencyGraphPanel.show(dependencyGraph, moduleIndexer, pathResolver, focusPath);
+      })
+    );
+
     context.subscriptions.push(...disposables);
     logger.info(`Activated with ${moduleIndexer?.getModuleCount() || 0} modules`);
 
@@ -114,14 +264,46 @@ function loadConfiguration(): ExtensionConfig {
     excludePatterns: config.get<string[]>('excludePatterns', ['**/node_modules/**', '**/.git/**']),
     useGetService: config.get<boolean>('useGetService', false),
     debugMode: config.get<boolean>('debugMode', false),
+    detectCircularRequires: config.get<boolean>('detectCircularRequires', true),
+    detectBrokenRequires: config.get<boolean>('detectBrokenRequires', true),
+    detectRealmViolations: config.get<boolean>('detectRealmViolations', true),
+    serverModulesInClient: config.get<'hide' | 'deprioritize' | 'show'>('serverModulesInClient', 'deprioritize'),
+    updateRequiresOnRename: config.get<'prompt' | 'always' | 'preview' | 'never'>('updateRequiresOnRename', 'prompt'),
+    organizeRequiresGroups: config.get<RequireGroup[]>('organizeRequiresGroups', ['services', 'packages', 'shared', 'local']),
+    organizeRequiresOnSave: config.get<boolean>('organizeRequiresOnSave', false),
+    showRequireCodeLens: config.get<boolean>('showRequireCodeLens', true),
+    requirePlacement: config.get<RequirePlacement>('requirePlacement', 'cursor'),
+    declareMissingServices: config.get<boolean>('declareMissingServices', true),
+    serviceOrder: config.get<string[]>('serviceOrder', []),
+    variableCase: config.get<VariableCase>('variableCase', 'auto'),
+    variableStripSuffixes: config.get<string[]>('variableStripSuffixes', []),
+    variableAliases: config.get<Record<string, string>>('variableAliases', {}),
+    rankByUsage: config.get<boolean>('rankByUsage', true),
+    rankByProximity: config.get<boolean>('rankByProximity', true),
+    rankingWeights: { ...DEFAULT_RANKING_WEIGHTS, ...config.get<Partial<RankingWeights>>('rankingWeights', {}) },
   };
 }
 
 export function deactivate() {
+  codeLensProvider?.dispose();
+  renameHandler?.dispose();
+  realmDiagnostics?.dispose();
+  brokenRequireDiagnostics?.dispose();
+  circularRequireDiagnostics?.dispose();
+  dependencyGraph?.dispose();
   moduleIndexer?.dispose();
   pathResolver?.dispose();
   disposables.forEach(d => d.dispose());
   disposables = [];
+  circularRequireDiagnostics = undefined;
+  brokenRequireDiagnostics = undefined;
+  realmDiagnostics = undefined;
+  renameHandler = undefined;
+  missingRequireActions = undefined;
+  requireOrganizer = undefined;
+  requireResolver = undefined;
+  codeLensProvider = undefined;
+  dependencyGraph = undefined;
   moduleIndexer = undefined;
   pathResolver = undefined;
   completionProvider = undefined;
@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import { Realm } from './types';
+
+const STATE_KEY = 'robloxSuperRequire.frecency';
+/** Days for a pick's weight to halve */
+const HALF_LIFE_DAYS = 14;
+const MAX_ENTRIES_PER_SCOPE = 200;
+/** Folder scopes kept; the least recently used are dropped past this */
+const MAX_FOLDER_SCOPES = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Weight of each scope in the combined score; picks near the current file count most */
+const SCOPE_WEIGHTS: Record<string, number> = { workspace: 1, realm: 1, folder: 2 };
+
+/**
+ * Decayed pick count of a module in one scope
+ */
+interface PickRecord {
+  /** Pick count decayed to `lastUsed` */
+  score: number;
+  /** Time of the last pick, in ms */
+  lastUsed: number;
+}
+
+/**
+ * Pick records by scope key, then by module file
+ */
+type FrecencyData = Record<string, Record<string, PickRecord>>;
+
+/**
+ * Remembers which modules are picked from completion, per workspace and per folder and realm,
+ * and scores them by frequency with exponential decay over time
+ */
+export class FrecencyTracker {
+  private data: FrecencyData;
+
+  constructor(private state: vscode.Memento) {
+    this.data = state.get<FrecencyData>(STATE_KEY, {});
+  }
+
+  /**
+   * Get the scope keys picks from a file are recorded under
+   * @param folder Parent instance path (or directory) of the file
+   */
+  public getScopes(realm: Realm, folder: string): string[] {
+    return ['workspace', `realm:${realm}`, `folder:${folder}`];
+  }
+
+  /**
+   * Record that modules were picked from a file in the given scopes
+   */
+  public async recordPick(moduleFsPaths: string[], scopes: string[]): Promise<void> {
+    const now = Date.now();
+
+    for (const scope of scopes) {
+      const records = this.data[scope] ?? (this.data[scope] = {});
+      for (const fsPath of moduleFsPaths) {
+        const record = records[fsPath];
+        records[fsPath] = { score: (record ? this.decay(record, now) : 0) + 1, lastUsed: now };
+      }
+      this.prune(records, now);
+    }
+    this.pruneScopes();
+
+    await this.state.update(STATE_KEY, this.data);
+  }
+
+  /**
+   * Get a module's combined score across scopes, normalized to [0, 1)
+   */
+  public getScore(moduleFsPath: string, scopes: string[]): number {
+    const now = Date.now();
+    let total = 0;
+
+    for (const scope of scopes) {
+      const record = this.data[scope]?.[moduleFsPath];
+      if (record) {
+        total += this.decay(record, now) * (SCOPE_WEIGHTS[scope.split(':')[0]] ?? 1);
+      }
+    }
+
+    return total / (total + 1);
+  }
+
+  private decay(record: PickRecord, now: number): number {
+    return record.score * Math.pow(0.5, (now - record.lastUsed) / (HALF_LIFE_DAYS * DAY_MS));
+  }
+
+  /**
+   * Drop the lowest scoring records once a scope grows past its limit
+   */
+  private prune(records: Record<string, PickRecord>, now: number): void {
+    const keys = Object.keys(records);
+    if (keys.length <= MAX_ENTRIES_PER_SCOPE) return;
+
+    keys
+      .sort((a, b) => this.decay(records[a], now) - this.decay(records[b], now))
+      .slice(0, keys.length - MAX_ENTRIES_PER_SCOPE)
+      .forEach(key => delete records[key]);
+  }
+
+  /**
+   * Drop the least recently used folder scopes once there are more than the limit
+   */
+  private pruneScopes(): void {
+    const folderScopes = Object.keys(this.data).filter(scope => scope.startsWith('folder:'));
+    if (folderScopes.length <= MAX_FOLDER_SCOPES) return;
+
+    const lastUsed = new Map(folderScopes.map(scope =>
+      [scope, Math.max(0, ...Object.values(this.data[scope]).map(r => r.lastUsed))]
+    ));
+    folderScopes
+      .sort((a, b) => lastUsed.get(a)! - lastUsed.get(b)!)
+      .slice(0, folderScopes.length - MAX_FOLDER_SCOPES)
+      .forEach(scope => delete this.data[scope]);
+  }
+}
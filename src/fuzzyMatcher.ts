@@ -80,6 +80,83 @@ export function subsequenceMatch(query: string, target: string): { matched: numb
   return { matched: queryIdx, gaps, positions };
 }
 
+/**
+ * Find the indices where words start in an identifier: the first character, capitals after lowercase letters
+ * or digits, the last capital of an acronym followed by lowercase (`HTTPService` → H, S), characters after
+ * separators such as `_`, and the start of digit runs
+ */
+export function getWordStarts(text: string): number[] {
+  const starts: number[] = [];
+  const isUpper = (c: string) => c >= 'A' && c <= 'Z';
+  const isLower = (c: string) => c >= 'a' && c <= 'z';
+  const isDigit = (c: string) => c >= '0' && c <= '9';
+  const isWordChar = (c: string) => isUpper(c) || isLower(c) || isDigit(c);
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (!isWordChar(c)) continue;
+
+    const prev = i > 0 ? text[i - 1] : '';
+    const next = i + 1 < text.length ? text[i + 1] : '';
+    if (
+      prev === '' ||
+      !isWordChar(prev) ||
+      (isUpper(c) && (isLower(prev) || isDigit(prev))) ||
+      (isUpper(c) && isUpper(prev) && isLower(next)) ||
+      (isDigit(c) && !isDigit(prev))
+    ) {
+      starts.push(i);
+    }
+  }
+
+  return starts;
+}
+
+/**
+ * Match the query against the starts of words (CamelCase, snake_case, digits), where each matched word
+ * contributes a prefix of itself: `pds` → PlayerDataService, `remev` → RemoteEvents
+ * @returns Matched character positions, or null if the query can't be matched this way
+ */
+export function boundaryMatch(query: string, target: string): number[] | null {
+  const queryLower = query.toLowerCase();
+  const targetLower = target.toLowerCase();
+  const starts = getWordStarts(target);
+  if (queryLower.length === 0 || starts.length === 0) return null;
+
+  const isStart = new Array<boolean>(target.length).fill(false);
+  for (const start of starts) isStart[start] = true;
+
+  const positions: number[] = [];
+  const failed = new Set<number>();
+
+  // Match query[queryIdx..] either continuing the current word at `next` or from a later word start
+  const search = (queryIdx: number, next: number, canContinue: boolean): boolean => {
+    if (queryIdx === queryLower.length) return true;
+
+    const key = (queryIdx * (target.length + 1) + next) * 2 + (canContinue ? 1 : 0);
+    if (failed.has(key)) return false;
+
+    const c = queryLower[queryIdx];
+    if (canContinue && next < target.length && !isStart[next] && targetLower[next] === c) {
+      positions.push(next);
+      if (search(queryIdx + 1, next + 1, true)) return true;
+      positions.pop();
+    }
+
+    for (const start of starts) {
+      if (start < next || targetLower[start] !== c) continue;
+      positions.push(start);
+      if (search(queryIdx + 1, start + 1, true)) return true;
+      positions.pop();
+    }
+
+    failed.add(key);
+    return false;
+  };
+
+  return search(0, 0, false) ? positions : null;
+}
+
 /**
  * Calculate character frequency similarity
  * Useful when characters are correct but order is very wrong
@@ -152,25 +229,43 @@ export function areKeysAdjacent(char1: string, char2: string): boolean {
   return adjacent ? adjacent.includes(c2) : false;
 }
 
+/** DP rows reused across keyboardAwareDistance calls: two rows back, previous row, current row */
+let distanceRows: Float64Array[] = [new Float64Array(64), new Float64Array(64), new Float64Array(64)];
+/** Lowercased characters of the strings being compared, reused across calls */
+const loweredChars1: string[] = [];
+const loweredChars2: string[] = [];
+
 /**
  * Calculate a weighted edit distance that considers keyboard proximity
+ * @param maxDistance Stop early and return Infinity once the distance is known to exceed this
  */
-export function keyboardAwareDistance(str1: string, str2: string): number {
+export function keyboardAwareDistance(str1: string, str2: string, maxDistance: number = Infinity): number {
   const m = str1.length;
   const n = str2.length;
 
   if (m === 0) return n;
   if (n === 0) return m;
+  if (Math.abs(m - n) > maxDistance) return Infinity;
 
-  const dp: number[][] = Array.from({ length: m + 1 }, () => Array(n + 1).fill(0));
+  if (distanceRows[0].length < n + 1) {
+    const size = Math.max(n + 1, distanceRows[0].length * 2);
+    distanceRows = [new Float64Array(size), new Float64Array(size), new Float64Array(size)];
+  }
+  let [twoBack, previous, current] = distanceRows;
 
-  for (let i = 0; i <= m; i++) dp[i][0] = i;
-  for (let j = 0; j <= n; j++) dp[0][j] = j;
+  for (let i = 0; i < m; i++) loweredChars1[i] = str1[i].toLowerCase();
+  for (let j = 0; j < n; j++) loweredChars2[j] = str2[j].toLowerCase();
+
+  for (let j = 0; j <= n; j++) previous[j] = j;
+  let previousMin = 0;
 
   for (let i = 1; i <= m; i++) {
+    const c1 = loweredChars1[i - 1];
+    current[0] = i;
+    let rowMin = i;
+
     for (let j = 1; j <= n; j++) {
-      const c1 = str1[i - 1].toLowerCase();
-      const c2 = str2[j - 1].toLowerCase();
+      const c2 = loweredChars2[j - 1];
 
       let cost: number;
       if (c1 === c2) {
@@ -181,22 +276,32 @@ export function keyboardAwareDistance(str1: string, str2: string): number {
         cost = 1;
       }
 
-      dp[i][j] = Math.min(
-        dp[i - 1][j] + 1,
-        dp[i][j - 1] + 1,
-        dp[i - 1][j - 1] + cost
+      let value = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
       );
 
       // Transposition
-      if (i > 1 && j > 1 && 
-          str1[i - 1].toLowerCase() === str2[j - 2].toLowerCase() && 
-          str1[i - 2].toLowerCase() === str2[j - 1].toLowerCase()) {
-        dp[i][j] = Math.min(dp[i][j], dp[i - 2][j - 2] + 0.5);
+      if (i > 1 && j > 1 && c1 === loweredChars2[j - 2] && loweredChars1[i - 2] === c2) {
+        value = Math.min(value, twoBack[j - 2] + 0.5);
       }
+
+      current[j] = value;
+      if (value < rowMin) rowMin = value;
     }
+
+    // Every later cell builds on one of the last two rows, so the distance can only grow from here
+    if (rowMin > maxDistance && previousMin > maxDistance) return Infinity;
+    previousMin = rowMin;
+
+    const recycled = twoBack;
+    twoBack = previous;
+    previous = current;
+    current = recycled;
   }
 
-  return dp[m][n];
+  return previous[n];
 }
 
 /**
@@ -206,7 +311,9 @@ export function keyboardAwareDistance(str1: string, str2: string): number {
 export interface FuzzyMatchResult {
   score: number;
   isMatch: boolean;
-  matchType: 'exact' | 'prefix' | 'substring' | 'subsequence' | 'fuzzy' | 'none';
+  matchType: 'exact' | 'prefix' | 'substring' | 'acronym' | 'subsequence' | 'fuzzy' | 'none';
+  /** Indices of the target characters matched by the query, for highlighting */
+  positions: number[];
 }
 
 export interface FuzzyMatchOptions {
@@ -233,20 +340,130 @@ const defaultOptions: FuzzyMatchOptions = {
   allowVeryFuzzy: true,
 };
 
+/**
+ * A search text with the lookups fuzzy matching needs, computed once so it can be matched many times
+ */
+export interface PreparedText {
+  text: string;
+  lower: string;
+  /** Occurrences of each character (code point) of `lower` */
+  charCounts: Map<string, number>;
+  /** Number of code points in `lower` */
+  charCount: number;
+}
+
+/**
+ * Precompute the lookups used to match a text
+ */
+export function prepareText(text: string): PreparedText {
+  const lower = text.toLowerCase();
+  const charCounts = new Map<string, number>();
+  let charCount = 0;
+  for (const c of lower) {
+    charCounts.set(c, (charCounts.get(c) || 0) + 1);
+    charCount++;
+  }
+  return { text, lower, charCounts, charCount };
+}
+
+/**
+ * Count the characters two texts have in common (multiset intersection), as characterFrequencySimilarity does
+ */
+function countCommonChars(query: PreparedText, target: PreparedText): number {
+  let commonCount = 0;
+  for (const [char, count] of query.charCounts) {
+    commonCount += Math.min(count, target.charCounts.get(char) || 0);
+  }
+  return commonCount;
+}
+
 export function fuzzyMatch(query: string, target: string, options: Partial<FuzzyMatchOptions> = {}): FuzzyMatchResult {
+  return matchPrepared(prepareText(query), prepareText(target), { ...defaultOptions, ...options }, false);
+}
+
+/**
+ * Create a matcher for one query that gives up early on targets that can't reach `minScore`.
+ * Results scoring at least `minScore` are identical to fuzzyMatch; anything lower is reported as `none` with score 0.
+ */
+export function createBoundedMatcher(query: string, options: Partial<FuzzyMatchOptions> = {}): (target: PreparedText) => FuzzyMatchResult {
+  const preparedQuery = prepareText(query);
   const opts = { ...defaultOptions, ...options };
-  
-  const queryLower = query.toLowerCase();
-  const targetLower = target.toLowerCase();
+  return target => matchPrepared(preparedQuery, target, opts, true);
+}
+
+/**
+ * Lower bound of keyboardAwareDistance for texts of these lengths sharing `common` characters.
+ * Characters outside the common ones are substituted (at least 0.5 each, covering one in each text)
+ * or inserted/deleted (1 each), and the length difference can only be made up by insertions.
+ */
+function getMinDistance(maxLen: number, minLen: number, common: number): number {
+  return maxLen - 0.5 * minLen - 0.5 * common;
+}
+
+/**
+ * Get the fewest characters (counted as in characterFrequencySimilarity) a target of at most
+ * `maxTargetLength` must share with the query for a bounded match to reach minScore.
+ * Follows the scoring bounds of matchPrepared; 0 when any target could match.
+ */
+export function getMinCommonChars(query: PreparedText, maxTargetLength: number, options: Partial<FuzzyMatchOptions> = {}): number {
+  const opts = { ...defaultOptions, ...options };
+  const queryLength = query.lower.length;
+  const weights = [opts.levenshteinWeight, opts.subsequenceWeight, opts.frequencyWeight, opts.prefixBonus];
+  if (queryLength === 0 || opts.minScore <= 0 || weights.some(w => w < 0) || query.charCount !== queryLength) return 0;
+
+  // Exact, prefix, substring and acronym matches contain every query character
+  let minCommon = queryLength;
+  // The very fuzzy fallback needs 70% of the longer text in common, scoring half of that
+  if (opts.allowVeryFuzzy) {
+    minCommon = Math.min(minCommon, Math.ceil(Math.max(0.7, 2 * opts.minScore) * queryLength - 1e-9));
+  }
+
+  // Combined scoring with the best case for each part: a perfect subsequence of the common characters,
+  // the least edit distance they allow and a matching first character
+  for (let common = 0; common < minCommon; common++) {
+    for (let targetLength = Math.max(common, 1); targetLength <= maxTargetLength; targetLength++) {
+      const maxLen = Math.max(queryLength, targetLength);
+      const bestScore = (
+        (1 - getMinDistance(maxLen, Math.min(queryLength, targetLength), common) / maxLen) * opts.levenshteinWeight +
+        (common / queryLength) * opts.subsequenceWeight +
+        (common / maxLen) * opts.frequencyWeight +
+        (common > 0 ? opts.prefixBonus : 0)
+      ) * (0.7 + (Math.min(queryLength, targetLength) / maxLen) * 0.3);
+      if (bestScore >= opts.minScore - 1e-9) return common;
+    }
+  }
+
+  return minCommon;
+}
+
+/**
+ * Result for a target a bounded match ruled out: only the very fuzzy fallback can still reach minScore
+ */
+function veryFuzzyMatch(queryLower: string, targetLower: string, freqScore: number, opts: FuzzyMatchOptions): FuzzyMatchResult {
+  if (opts.allowVeryFuzzy && freqScore >= 0.7 && freqScore * 0.5 >= opts.minScore) {
+    return { score: freqScore * 0.5, isMatch: true, matchType: 'fuzzy', positions: subsequenceMatch(queryLower, targetLower).positions };
+  }
+  return { score: 0, isMatch: false, matchType: 'none', positions: [] };
+}
+
+/**
+ * Match a prepared query against a prepared target
+ * @param bounded Skip the edit distance for targets that can't reach `minScore`
+ */
+function matchPrepared(query: PreparedText, target: PreparedText, opts: FuzzyMatchOptions, bounded: boolean): FuzzyMatchResult {
+  const queryLower = query.lower;
+  const targetLower = target.lower;
+
+  const range = (start: number, length: number) => Array.from({ length }, (_, i) => start + i);
 
   // Empty query matches everything with low score
   if (queryLower.length === 0) {
-    return { score: 0.1, isMatch: true, matchType: 'fuzzy' };
+    return { score: 0.1, isMatch: true, matchType: 'fuzzy', positions: [] };
   }
 
   // Exact match
   if (queryLower === targetLower) {
-    return { score: 1.0, isMatch: true, matchType: 'exact' };
+    return { score: 1.0, isMatch: true, matchType: 'exact', positions: range(0, target.text.length) };
   }
 
   // Prefix match
@@ -255,47 +472,103 @@ export function fuzzyMatch(query: string, target: string, options: Partial<Fuzzy
     return { 
       score: 0.9 + (lengthRatio * 0.1), 
       isMatch: true, 
-      matchType: 'prefix' 
+      matchType: 'prefix',
+      positions: range(0, queryLower.length),
     };
   }
 
   // Substring match
-  if (targetLower.includes(queryLower)) {
+  const substringIdx = targetLower.indexOf(queryLower);
+  if (substringIdx !== -1) {
     const lengthRatio = queryLower.length / targetLower.length;
     return { 
       score: 0.7 + (lengthRatio * 0.2), 
       isMatch: true, 
-      matchType: 'substring' 
+      matchType: 'substring',
+      positions: range(substringIdx, queryLower.length),
+    };
+  }
+
+  const commonChars = countCommonChars(query, target);
+
+  // Acronym / word boundary match, scored by how many of the target's words the query touches.
+  // Every query character must appear in the target for this (surrogate pairs aside, which are matched per unit).
+  const boundaryPositions = commonChars === query.charCount || target.charCount !== targetLower.length
+    ? boundaryMatch(query.text, target.text)
+    : null;
+  if (boundaryPositions) {
+    const starts = getWordStarts(target.text);
+    const wordOf = (pos: number) => starts.filter(start => start <= pos).length;
+    const wordsMatched = new Set(boundaryPositions.map(wordOf)).size;
+    return {
+      score: 0.6 + (wordsMatched / starts.length) * 0.2,
+      isMatch: true,
+      matchType: 'acronym',
+      positions: boundaryPositions,
     };
   }
 
   // Combined fuzzy scoring
+  const maxLen = Math.max(queryLower.length, targetLower.length);
+
+  // Character frequency similarity
+  const freqScore = commonChars / maxLen;
+
+  const firstCharMatches = queryLower[0] === targetLower[0];
+  const lengthRatio = Math.min(queryLower.length, targetLower.length) / 
+                     Math.max(queryLower.length, targetLower.length);
+
+  const minDistance = getMinDistance(maxLen, Math.min(queryLower.length, targetLower.length), commonChars);
+
+  // Rule out targets that can't reach minScore even with a perfect subsequence, before matching it
+  if (bounded && opts.minScore > 0) {
+    const bestScore = ((1 - minDistance / maxLen) * opts.levenshteinWeight + opts.subsequenceWeight +
+      freqScore * opts.frequencyWeight + (firstCharMatches ? opts.prefixBonus : 0)) * (0.7 + (lengthRatio * 0.3));
+    if (bestScore < opts.minScore - 1e-9) {
+      return veryFuzzyMatch(queryLower, targetLower, freqScore, opts);
+    }
+  }
+
+  // Subsequence matching (characters in order)
+  const subseq = subsequenceMatch(queryLower, targetLower);
+  const subsequenceScore = subseq.matched / queryLower.length;
+  const gapPenalty = subseq.gaps > 0 ? Math.min(0.3, subseq.gaps * 0.02) : 0;
+
+  // Largest edit distance that can still reach minScore
+  let maxDistance = Infinity;
+  if (bounded && opts.minScore > 0 && opts.levenshteinWeight > 0) {
+    const otherScore = (subsequenceScore - gapPenalty) * opts.subsequenceWeight +
+      freqScore * opts.frequencyWeight + (firstCharMatches ? opts.prefixBonus : 0);
+    const neededLevenshtein = (opts.minScore / (0.7 + (lengthRatio * 0.3)) - otherScore) / opts.levenshteinWeight;
+    maxDistance = maxLen * (1 - neededLevenshtein) + 1e-9;
+  }
+
+  const keyboardDist = minDistance > maxDistance
+    ? Infinity
+    : keyboardAwareDistance(queryLower, targetLower, maxDistance);
+
+  if (keyboardDist > maxDistance) {
+    return veryFuzzyMatch(queryLower, targetLower, freqScore, opts);
+  }
+
   let score = 0;
 
   // 1. Levenshtein-based similarity with keyboard awareness
-  const keyboardDist = keyboardAwareDistance(queryLower, targetLower);
-  const maxLen = Math.max(queryLower.length, targetLower.length);
   const levenshteinScore = 1 - (keyboardDist / maxLen);
   score += levenshteinScore * opts.levenshteinWeight;
 
-  // 2. Subsequence matching (characters in order)
-  const subseq = subsequenceMatch(queryLower, targetLower);
-  const subsequenceScore = subseq.matched / queryLower.length;
-  const gapPenalty = subseq.gaps > 0 ? Math.min(0.3, subseq.gaps * 0.02) : 0;
+  // 2. Subsequence matching
   score += (subsequenceScore - gapPenalty) * opts.subsequenceWeight;
 
   // 3. Character frequency similarity
-  const freqScore = characterFrequencySimilarity(queryLower, targetLower);
   score += freqScore * opts.frequencyWeight;
 
   // 4. Bonus for matching first character
-  if (queryLower[0] === targetLower[0]) {
+  if (firstCharMatches) {
     score += opts.prefixBonus;
   }
 
   // 5. Length similarity bonus (penalize very different lengths)
-  const lengthRatio = Math.min(queryLower.length, targetLower.length) / 
-                     Math.max(queryLower.length, targetLower.length);
   score *= (0.7 + (lengthRatio * 0.3));
 
   // Normalize score to 0-1 range
@@ -319,6 +592,7 @@ export function fuzzyMatch(query: string, target: string, options: Partial<Fuzzy
     score,
     isMatch: score >= opts.minScore,
     matchType,
+    positions: subseq.positions,
   };
 }
 
@@ -329,6 +603,10 @@ export interface RankedMatch<T> {
   item: T;
   score: number;
   matchType: FuzzyMatchResult['matchType'];
+  /** The search text that matched best */
+  matchedText: string;
+  /** Indices of the matched characters in `matchedText` */
+  positions: number[];
 }
 
 export function rankMatches<T>(
@@ -345,17 +623,21 @@ export function rankMatches<T>(
     
     let bestScore = 0;
     let bestMatchType: FuzzyMatchResult['matchType'] = 'none';
+    let bestText = '';
+    let bestPositions: number[] = [];
 
     for (const text of textsArray) {
       const result = fuzzyMatch(query, text, options);
       if (result.score > bestScore) {
         bestScore = result.score;
         bestMatchType = result.matchType;
+        bestText = text;
+        bestPositions = result.positions;
       }
     }
 
     if (bestMatchType !== 'none') {
-      results.push({ item, score: bestScore, matchType: bestMatchType });
+      results.push({ item, score: bestScore, matchType: bestMatchType, matchedText: bestText, positions: bestPositions });
     }
   }
 
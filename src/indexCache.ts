@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import { ModuleIndexCacheData, CachedModuleEntry } from './types';
+import { logger } from './logger';
+
+/**
+ * Bump whenever the shape of ModuleInfo or the cache file changes
+ */
+const CACHE_VERSION = 2;
+const CACHE_FILE_NAME = 'module-index.json';
+
+/**
+ * Persists the module index to extension workspace storage between sessions
+ */
+export class IndexCache {
+  constructor(private storageUri: vscode.Uri | undefined) {}
+
+  /**
+   * Load the persisted index, or null if none exists or it is unusable
+   */
+  public async load(): Promise<ModuleIndexCacheData | null> {
+    if (!this.storageUri) {
+      return null;
+    }
+
+    const cacheUri = vscode.Uri.joinPath(this.storageUri, CACHE_FILE_NAME);
+
+    try {
+      const exists = await vscode.workspace.fs.stat(cacheUri).then(() => true, () => false);
+      if (!exists) {
+        return null;
+      }
+
+      const contentBytes = await vscode.workspace.fs.readFile(cacheUri);
+      const data: ModuleIndexCacheData = JSON.parse(Buffer.from(contentBytes).toString('utf-8'));
+
+      if (data.version !== CACHE_VERSION || !Array.isArray(data.entries)) {
+        logger.info('Discarding module index cache from an older version');
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      logger.error('Failed to load module index cache', error);
+      return null;
+    }
+  }
+
+  /**
+   * Write the index to storage
+   * @param projectHash Hash of the sourcemap and Rojo project files the index was resolved against
+   * @param entries Indexed modules with the mtime of their source file
+   */
+  public async save(projectHash: string, entries: CachedModuleEntry[]): Promise<void> {
+    if (!this.storageUri) {
+      return;
+    }
+
+    const data: ModuleIndexCacheData = {
+      version: CACHE_VERSION,
+      projectHash,
+      entries,
+    };
+
+    try {
+      await vscode.workspace.fs.createDirectory(this.storageUri);
+      const cacheUri = vscode.Uri.joinPath(this.storageUri, CACHE_FILE_NAME);
+      await vscode.workspace.fs.writeFile(cacheUri, Buffer.from(JSON.stringify(data), 'utf-8'));
+    } catch (error) {
+      logger.error('Failed to save module index cache', error);
+    }
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Helpers for working with Roblox instance path strings like `game.ReplicatedStorage["My Folder"].Util`
+ */
+
+/**
+ * Check if a string is a valid Lua identifier (can use dot notation)
+ */
+export function isLuaIdentifier(name: string): boolean {
+  return /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name);
+}
+
+/**
+ * Format a single segment with dot notation, or bracket notation when it isn't an identifier
+ */
+export function formatSegment(segment: string): string {
+  if (isLuaIdentifier(segment)) {
+    return `.${segment}`;
+  }
+  return `["${segment.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`;
+}
+
+/**
+ * Join segments into an instance path (the first segment is used as-is, e.g. "game")
+ */
+export function joinInstancePath(segments: string[]): string {
+  if (segments.length === 0) {
+    return '';
+  }
+  return segments[0] + segments.slice(1).map(formatSegment).join('');
+}
+
+/**
+ * Split an instance path into its segments, unescaping bracketed names
+ */
+export function splitInstancePath(instancePath: string): string[] {
+  const segments: string[] = [];
+  const pattern = /(?:^|\.)([a-zA-Z_]\w*)|\[\s*"((?:[^"\\]|\\.)*)"\s*\]|\[\s*'((?:[^'\\]|\\.)*)'\s*\]/g;
+  let match;
+  while ((match = pattern.exec(instancePath)) !== null) {
+    const raw = match[1] ?? match[2] ?? match[3];
+    segments.push(raw.replace(/\\(.)/g, '$1'));
+  }
+  return segments;
+}
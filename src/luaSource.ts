@@ -0,0 +1,290 @@
+/**
+ * Low-level helpers for scanning Lua/Luau source text
+ */
+
+/**
+ * Find the end of a long bracket (e.g. `[[`, `[==[`) starting at `index`
+ * @returns Index just past the closing bracket, or -1 if `index` doesn't start a long bracket
+ */
+function skipLongBracket(source: string, index: number): number {
+  const open = /^\[(=*)\[/.exec(source.substring(index, index + 64));
+  if (!open) {
+    return -1;
+  }
+  const close = `]${open[1]}]`;
+  const end = source.indexOf(close, index + open[0].length);
+  return end === -1 ? source.length : end + close.length;
+}
+
+/**
+ * Find the end of a quoted string starting at `index`
+ * @returns Index just past the closing quote
+ */
+function skipQuotedString(source: string, index: number): number {
+  const quote = source[index];
+  let i = index + 1;
+  while (i < source.length) {
+    const c = source[i];
+    if (c === '\\') {
+      i += 2;
+      continue;
+    }
+    if (c === quote || c === '\n') {
+      return i + 1;
+    }
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Replace all comments with spaces, keeping newlines so offsets and line numbers stay valid
+ */
+export function stripComments(source: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < source.length) {
+    const c = source[i];
+
+    if (c === '"' || c === "'" || c === '`') {
+      const end = skipQuotedString(source, i);
+      result += source.substring(i, end);
+      i = end;
+      continue;
+    }
+
+    if (c === '[') {
+      const end = skipLongBracket(source, i);
+      if (end !== -1) {
+        result += source.substring(i, end);
+        i = end;
+        continue;
+      }
+    }
+
+    if (c === '-' && source[i + 1] === '-') {
+      let end = skipLongBracket(source, i + 2);
+      if (end === -1) {
+        end = source.indexOf('\n', i);
+        if (end === -1) end = source.length;
+      }
+      result += source.substring(i, end).replace(/[^\n]/g, ' ');
+      i = end;
+      continue;
+    }
+
+    result += c;
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * Find the bracket closing the one at `openIndex`, skipping strings
+ * @returns Index of the closing bracket, or -1 if it is unbalanced
+ */
+export function findClosingBracket(source: string, openIndex: number): number {
+  const open = source[openIndex];
+  const close = open === '{' ? '}' : open === '(' ? ')' : ']';
+  let depth = 0;
+  let i = openIndex;
+
+  while (i < source.length) {
+    const c = source[i];
+    if (c === '"' || c === "'" || c === '`') {
+      i = skipQuotedString(source, i);
+      continue;
+    }
+    if (c === '[' && i !== openIndex) {
+      const end = skipLongBracket(source, i);
+      if (end !== -1) {
+        i = end;
+        continue;
+      }
+    }
+    if (c === open) {
+      depth++;
+    } else if (c === close) {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+    i++;
+  }
+
+  return -1;
+}
+
+const BLOCK_OPENERS = new Set(['function', 'if', 'do', 'repeat']);
+const BLOCK_CLOSERS = new Set(['end', 'until']);
+const IDENTIFIER_PATTERN = /[a-zA-Z_]\w*/y;
+
+/**
+ * Split a table constructor body into its top-level fields.
+ * Commas inside nested brackets or inline `function ... end` bodies are ignored.
+ */
+export function splitTableFields(body: string): string[] {
+  const fields: string[] = [];
+  const tracker = new BlockTracker();
+  let brackets = 0;
+  let start = 0;
+
+  forEachToken(body, (token, index) => {
+    tracker.next(token);
+    if (token === '{' || token === '(' || token === '[') {
+      brackets++;
+    } else if (token === '}' || token === ')' || token === ']') {
+      brackets--;
+    } else if ((token === ',' || token === ';') && brackets === 0 && tracker.blocks.length === 0) {
+      fields.push(body.substring(start, index));
+      start = index + 1;
+    }
+  });
+
+  fields.push(body.substring(start));
+  return fields.map(f => f.trim()).filter(f => f.length > 0);
+}
+
+/**
+ * Call `visit` for each token of code outside strings: identifiers and keywords as whole words,
+ * runs of dots, every other non-space character on its own, and each string literal as `""`
+ */
+function forEachToken(code: string, visit: (token: string, index: number) => void): void {
+  let i = 0;
+
+  while (i < code.length) {
+    const c = code[i];
+    if (c === '"' || c === "'" || c === '`') {
+      visit('""', i);
+      i = skipQuotedString(code, i);
+      continue;
+    }
+    if (c === '[') {
+      const end = skipLongBracket(code, i);
+      if (end !== -1) {
+        visit('""', i);
+        i = end;
+        continue;
+      }
+    }
+    if (/[a-zA-Z_]/.test(c)) {
+      IDENTIFIER_PATTERN.lastIndex = i;
+      const word = IDENTIFIER_PATTERN.exec(code)![0];
+      visit(word, i);
+      i += word.length;
+      continue;
+    }
+    if (c === '.') {
+      // `..` and `...` are one token each
+      const dots = /\.+/y;
+      dots.lastIndex = i;
+      const run = dots.exec(code)![0];
+      visit(run, i);
+      i += run.length;
+      continue;
+    }
+    if (!/\s/.test(c)) {
+      visit(c, i);
+    }
+    i++;
+  }
+}
+
+/** Tokens after which an expression starts, so an `if` there is a Luau if-expression */
+const EXPRESSION_PRECEDERS = new Set([
+  'return', 'and', 'or', 'not', 'if', 'elseif', 'while', 'until', 'in',
+  '=', '(', '[', '{', ',', '+', '-', '*', '/', '%', '^', '#', '<', '>', '~', '..', ':',
+]);
+
+/**
+ * Tracks the blocks (`function … end`, `if … end`, `do … end`, `repeat … until`) open at each token.
+ * Luau if-expressions (`if a then b else c`) have no `end`, so they are closed at their `else` instead.
+ */
+class BlockTracker {
+  /** Keywords of the open blocks, innermost last; if-expressions are recorded as `if?` */
+  public readonly blocks: string[] = [];
+  private previous = '';
+  /** Whether the previous `then` or `else` belongs to an if-expression, so an expression follows it */
+  private inExpression = false;
+
+  /**
+   * Update the open blocks for the next token
+   */
+  public next(token: string): void {
+    const innermost = this.blocks[this.blocks.length - 1];
+
+    if (token === 'if' && (EXPRESSION_PRECEDERS.has(this.previous) || this.inExpression)) {
+      this.blocks.push('if?');
+    } else if (BLOCK_OPENERS.has(token)) {
+      this.blocks.push(token);
+    } else if (BLOCK_CLOSERS.has(token) && this.blocks.length > 0 && innermost !== 'if?') {
+      this.blocks.pop();
+    }
+
+    this.inExpression = innermost === 'if?' && (token === 'then' || token === 'else');
+    if (this.inExpression && token === 'else') {
+      this.blocks.pop();
+    }
+    this.previous = token;
+  }
+}
+
+/**
+ * Find the outermost function bodies in code, as offset ranges from the `function` keyword to just past
+ * its `end`. A body left unclosed runs to the end of the code.
+ */
+export function findFunctionBodies(code: string): { start: number; end: number }[] {
+  const bodies: { start: number; end: number }[] = [];
+  const tracker = new BlockTracker();
+  let functionStart = -1;
+
+  forEachToken(code, (token, index) => {
+    tracker.next(token);
+    const insideFunction = tracker.blocks.includes('function');
+    if (insideFunction && functionStart === -1) {
+      functionStart = index;
+    } else if (!insideFunction && functionStart !== -1) {
+      bodies.push({ start: functionStart, end: index + token.length });
+      functionStart = -1;
+    }
+  });
+
+  if (functionStart !== -1) {
+    bodies.push({ start: functionStart, end: code.length });
+  }
+  return bodies;
+}
+
+/**
+ * Collect every identifier declared anywhere in the file (locals, functions, parameters, loop variables)
+ */
+export function collectDeclaredIdentifiers(code: string): Set<string> {
+  const declared = new Set<string>();
+  const addNames = (list: string) => {
+    for (const part of list.split(',')) {
+      const name = /^\s*([a-zA-Z_]\w*)/.exec(part);
+      if (name) declared.add(name[1]);
+    }
+  };
+
+  let match;
+  const localPattern = /\blocal\s+(?!function\b)([a-zA-Z_][\w\s,:<>?|]*?)\s*(?:=|$|\n)/gm;
+  while ((match = localPattern.exec(code)) !== null) addNames(match[1]);
+
+  const functionPattern = /\bfunction\s+([a-zA-Z_]\w*)\s*[(<]/g;
+  while ((match = functionPattern.exec(code)) !== null) declared.add(match[1]);
+
+  const localFunctionPattern = /\blocal\s+function\s+([a-zA-Z_]\w*)/g;
+  while ((match = localFunctionPattern.exec(code)) !== null) declared.add(match[1]);
+
+  const paramsPattern = /\bfunction\b[^(]*\(([^)]*)\)/g;
+  while ((match = paramsPattern.exec(code)) !== null) addNames(match[1]);
+
+  const forPattern = /\bfor\s+([\w\s,]+?)\s+(?:=|in)\b/g;
+  while ((match = forPattern.exec(code)) !== null) addNames(match[1]);
+
+  return declared;
+}
@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import { ModuleIndexer } from './moduleIndexer';
+import { ExtensionConfig, ModuleInfo } from './types';
+import { collectDeclaredIdentifiers, stripComments } from './luaSource';
+import { extractDefinedServices, extractDefinedVariables } from './requireParser';
+import { buildRequirePath } from './requirePathBuilder';
+import { getRequireInsertionPoint } from './requireBlock';
+import { getModuleVariableName } from './variableNaming';
+import { getFileRealm, getInstanceRealm, canRequireAcrossRealms } from './realm';
+
+/**
+ * Offers to require a module for an identifier that isn't defined in the file but matches a module name
+ */
+export class MissingRequireCodeActions implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  constructor(
+    private moduleIndexer: ModuleIndexer,
+    private config: ExtensionConfig
+  ) {}
+
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection
+  ): vscode.CodeAction[] | undefined {
+    if (!this.config.enabled) return undefined;
+
+    const wordRange = document.getWordRangeAtPosition(range.start, /[a-zA-Z_]\w*/);
+    if (!wordRange) return undefined;
+
+    const identifier = document.getText(wordRange);
+    const lineText = document.lineAt(wordRange.start.line).text;
+
+    // Member accesses (Foo.Signal, obj:Signal) and comments aren't candidates
+    const before = lineText.substring(0, wordRange.start.character);
+    if (/[.:]\s*$/.test(before) || before.includes('--')) return undefined;
+
+    const matches = this.moduleIndexer.getModules().filter(m =>
+      getModuleVariableName(m, this.config) === identifier && m.fsPath !== document.uri.fsPath
+    );
+    if (matches.length === 0) return undefined;
+
+    const text = document.getText();
+    if (collectDeclaredIdentifiers(stripComments(text)).has(identifier)) return undefined;
+
+    const currentModule = this.moduleIndexer.findByFsPath(document.uri.fsPath);
+    const currentScriptPath = currentModule?.instancePath ?? null;
+    const currentRealm = getFileRealm(document.uri.fsPath, currentScriptPath);
+
+    // Modules the current realm can require come first
+    const sorted = [
+      ...matches.filter(m => canRequireAcrossRealms(currentRealm, getInstanceRealm(m.instancePath))),
+      ...matches.filter(m => !canRequireAcrossRealms(currentRealm, getInstanceRealm(m.instancePath))),
+    ];
+
+    return sorted.map((moduleInfo, index) =>
+      this.createAction(document, moduleInfo, identifier, text, currentScriptPath, sorted.length === 1 || index === 0)
+    );
+  }
+
+  /**
+   * Create the action inserting a require for one module
+   */
+  private createAction(
+    document: vscode.TextDocument,
+    moduleInfo: ModuleInfo,
+    identifier: string,
+    text: string,
+    currentScriptPath: string | null,
+    isPreferred: boolean
+  ): vscode.CodeAction {
+    const requirePath = buildRequirePath(
+      moduleInfo.instancePath,
+      extractDefinedServices(text),
+      extractDefinedVariables(text, currentScriptPath),
+      currentScriptPath,
+      this.config
+    );
+    const statement = `local ${identifier} = require(${requirePath})`;
+
+    const lines = text.split(/\r?\n/);
+    const insertion = getRequireInsertionPoint(lines);
+    const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+    const insertText = statement + eol + (insertion.needsSeparator ? eol : '');
+
+    const action = new vscode.CodeAction(
+      `Add require for ${identifier} (${moduleInfo.instancePath})`,
+      vscode.CodeActionKind.QuickFix
+    );
+    action.edit = new vscode.WorkspaceEdit();
+    action.edit.insert(document.uri, new vscode.Position(insertion.line, 0), insertText);
+    action.isPreferred = isPreferred;
+    return action;
+  }
+
+  public updateConfig(config: ExtensionConfig): void {
+    this.config = config;
+  }
+}
@@ -0,0 +1,27 @@
+import * as vscode from 'vscode';
+import { ModuleExports } from './types';
+import { formatExportSignature } from './exportParser';
+
+/**
+ * Append a module's exported members and types to a markdown document
+ * @param ownerName Name the members are shown on (usually the local the module is required into)
+ * @param maxShown Members listed before the rest are summarized
+ */
+export function appendExportsMarkdown(
+  doc: vscode.MarkdownString,
+  exports: ModuleExports | undefined,
+  ownerName: string,
+  maxShown: number = 12
+): void {
+  if (!exports || (exports.members.length === 0 && exports.types.length === 0)) return;
+
+  if (exports.members.length > 0) {
+    doc.appendMarkdown('**Exports:**\n');
+    const signatures = exports.members.slice(0, maxShown).map(m => formatExportSignature(m, ownerName));
+    if (exports.members.length > maxShown) signatures.push(`-- ${exports.members.length - maxShown} more`);
+    doc.appendCodeblock(signatures.join('\n'), 'lua');
+  }
+  if (exports.types.length > 0) {
+    doc.appendMarkdown(`**Types:** ${exports.types.map(t => `\`${t}\``).join(', ')}\n\n`);
+  }
+}
@@ -1,44 +1,151 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { ModuleInfo } from './types';
+import * as fs from 'fs';
+import { ModuleInfo, ModuleExports, ModuleIndexChange } from './types';
 import { PathResolver } from './pathResolver';
+import { IndexCache } from './indexCache';
+import { ModuleSearchIndex } from './moduleSearchIndex';
+import { parseModuleExports } from './exportParser';
 import { logger } from './logger';
 
+/** Number of files read at once while scanning the workspace */
+const READ_BATCH_SIZE = 50;
+
+/**
+ * A watcher event received while the workspace was being scanned, applied once the scan finishes
+ */
+interface PendingFileEvent {
+  uri: vscode.Uri;
+  isWallyPackage: boolean;
+  kind: 'created' | 'changed' | 'deleted';
+}
+
 /**
  * Indexes and caches all Luau modules in the workspace
  */
 export class ModuleIndexer {
   private modules: ModuleInfo[] = [];
-  private indexing: boolean = false;
+  private fileMtimes: Map<string, number> = new Map();
+  private projectHash: string = '';
+  private indexRun: Promise<void> | undefined;
+  private queuedRun: { incremental: boolean; promise: Promise<void> } | undefined;
+  private pendingFileEvents: Map<string, PendingFileEvent> = new Map();
   private watcherDisposables: vscode.Disposable[] = [];
+  private saveTimer: NodeJS.Timeout | undefined;
+  private instancePathMap: Map<string, ModuleInfo> | null = null;
+  private fsPathMap: Map<string, ModuleInfo> | null = null;
+  private searchIndex = new ModuleSearchIndex();
+  private changeEmitter = new vscode.EventEmitter<ModuleIndexChange>();
+
+  /** Fires after the index is rebuilt or a watched file changes */
+  public readonly onDidChange = this.changeEmitter.event;
 
   constructor(
     private workspaceFolders: readonly vscode.WorkspaceFolder[],
-    private pathResolver: PathResolver
+    private pathResolver: PathResolver,
+    private indexCache?: IndexCache
   ) {}
 
   /**
-   * Initialize the indexer and start watching for changes
+   * Initialize the indexer and start watching for changes.
+   * When a persisted index is available it is used right away and refreshed in the background.
+   * File changes seen while the workspace is scanned are applied once the scan finishes.
    */
   public async initialize(): Promise<void> {
-    await this.rebuildIndex();
+    const warmStarted = await this.loadFromCache();
     this.setupFileWatcher();
+
+    if (warmStarted) {
+      this.refreshIndex().catch(e => logger.error('Incremental refresh failed', e));
+      return;
+    }
+
+    await this.rebuildIndex();
+  }
+
+  /**
+   * Load the persisted index if it was resolved against the current project files
+   * @returns Whether the cached index was loaded
+   */
+  private async loadFromCache(): Promise<boolean> {
+    if (!this.indexCache) {
+      return false;
+    }
+
+    const data = await this.indexCache.load();
+    if (!data) {
+      return false;
+    }
+
+    this.projectHash = await this.pathResolver.computeProjectHash();
+    if (data.projectHash !== this.projectHash) {
+      logger.info('Project files changed since last session, ignoring module index cache');
+      return false;
+    }
+
+    this.modules = data.entries.map(e => e.module);
+    this.searchIndex.rebuild(this.modules);
+    this.invalidateLookups();
+    this.fileMtimes = new Map(data.entries.map(e => [e.module.fsPath, e.mtime]));
+    logger.info(`Loaded ${this.modules.length} modules from cache`);
+    return true;
   }
 
   /**
-   * Rebuild the entire module index
+   * Rebuild the entire module index, re-resolving every file
    */
   public async rebuildIndex(): Promise<void> {
-    if (this.indexing) {
-      return;
+    await this.runIndex(false);
+  }
+
+  /**
+   * Update the index, only re-resolving files that changed since they were last indexed
+   */
+  public async refreshIndex(): Promise<void> {
+    await this.runIndex(true);
+  }
+
+  /**
+   * Run a workspace scan, or queue one behind the scan in progress.
+   * Requests made during a scan share one queued scan, which is a full rebuild if any of them asked for one.
+   * @param incremental Reuse existing entries whose file mtime is unchanged
+   */
+  private runIndex(incremental: boolean): Promise<void> {
+    if (!this.indexRun) {
+      this.indexRun = this.scanWorkspace(incremental).finally(() => {
+        this.indexRun = undefined;
+      });
+      return this.indexRun;
     }
 
-    this.indexing = true;
-    this.modules = [];
+    if (this.queuedRun) {
+      this.queuedRun.incremental = this.queuedRun.incremental && incremental;
+      return this.queuedRun.promise;
+    }
 
+    const current = this.indexRun;
+    const queued = { incremental, promise: Promise.resolve() };
+    const start = () => {
+      this.queuedRun = undefined;
+      return this.runIndex(queued.incremental);
+    };
+    queued.promise = current.then(start, start);
+    this.queuedRun = queued;
+    return queued.promise;
+  }
+
+  /**
+   * Scan the workspace and (re)build the module list
+   * @param incremental Reuse existing entries whose file mtime is unchanged
+   */
+  private async scanWorkspace(incremental: boolean): Promise<void> {
     const startTime = Date.now();
 
     try {
+      const previousModules = new Map(this.modules.map(m => [m.fsPath, m]));
+      const previousMtimes = this.fileMtimes;
+      this.projectHash = await this.pathResolver.computeProjectHash();
+
       // Search for .luau files (Rojo standard) - exclude _Index (Wally internal)
       const luauFiles = await vscode.workspace.findFiles(
         '**/*.luau',
@@ -52,40 +159,209 @@ export class ModuleIndexer {
         '**/_Index/**'
       );
 
-      for (const file of luauFiles) {
-        this.indexFile(file, false);
+      const files = [
+        ...luauFiles.map(uri => ({ uri, isWallyPackage: false })),
+        ...wallyPackageFiles.map(uri => ({ uri, isWallyPackage: true })),
+      ];
+      const mtimes = await Promise.all(files.map(f => this.statMtime(f.uri)));
+
+      const modules: ModuleInfo[] = [];
+      const fileMtimes = new Map<string, number>();
+      let reused = 0;
+
+      // Read changed files a batch at a time, keeping the module list in file order
+      for (let start = 0; start < files.length; start += READ_BATCH_SIZE) {
+        const batch = files.slice(start, start + READ_BATCH_SIZE).map(({ uri, isWallyPackage }, offset) => {
+          const fsPath = uri.fsPath;
+          const mtime = mtimes[start + offset];
+          if (mtime !== undefined) {
+            fileMtimes.set(fsPath, mtime);
+          }
+
+          const previous = incremental ? previousModules.get(fsPath) : undefined;
+          if (previous && mtime !== undefined && previousMtimes.get(fsPath) === mtime) {
+            reused++;
+            return previous;
+          }
+          return this.createModuleInfo(uri, isWallyPackage);
+        });
+
+        for (const moduleInfo of await Promise.all(batch)) {
+          if (moduleInfo) {
+            modules.push(moduleInfo);
+          }
+        }
       }
 
-      for (const file of wallyPackageFiles) {
-        this.indexFile(file, true);
-      }
+      this.modules = modules;
+      this.searchIndex.rebuild(modules);
+      this.fileMtimes = fileMtimes;
+      this.invalidateLookups();
 
       const duration = Date.now() - startTime;
-      logger.info(`Indexed ${this.modules.length} modules in ${duration}ms`);
+      const reusedNote = incremental ? ` (${reused} unchanged)` : '';
+      logger.info(`Indexed ${this.modules.length} modules${reusedNote} in ${duration}ms`);
+
+      await this.saveCache();
     } catch (error) {
       logger.error('Error during indexing', error);
-    } finally {
-      this.indexing = false;
+    }
+
+    this.changeEmitter.fire({ kind: 'rebuilt' });
+    await this.applyPendingFileEvents();
+  }
+
+  /**
+   * Apply the watcher events queued during a scan to the new module list
+   */
+  private async applyPendingFileEvents(): Promise<void> {
+    while (this.pendingFileEvents.size > 0) {
+      const events = [...this.pendingFileEvents.values()];
+      this.pendingFileEvents.clear();
+
+      for (const { uri, isWallyPackage, kind } of events) {
+        if (kind === 'deleted') {
+          this.removeFile(uri);
+        } else {
+          await this.indexFile(uri, isWallyPackage, kind);
+        }
+      }
+    }
+  }
+
+  /**
+   * Handle a file watcher event, queueing it while a scan is building a new module list
+   */
+  private async handleFileEvent(uri: vscode.Uri, isWallyPackage: boolean, kind: PendingFileEvent['kind']): Promise<void> {
+    if (this.indexRun) {
+      // Re-insert so events replay in the order of each file's latest change
+      this.pendingFileEvents.delete(uri.fsPath);
+      this.pendingFileEvents.set(uri.fsPath, { uri, isWallyPackage, kind });
+      return;
+    }
+
+    if (kind === 'deleted') {
+      this.removeFile(uri);
+    } else {
+      await this.indexFile(uri, isWallyPackage, kind);
     }
   }
 
   /**
-   * Index a single file
+   * Get a file's modification time, or undefined if it can't be read
+   */
+  private async statMtime(uri: vscode.Uri): Promise<number | undefined> {
+    try {
+      const stat = await vscode.workspace.fs.stat(uri);
+      return stat.mtime;
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Persist the current index
+   */
+  private async saveCache(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+
+    if (!this.indexCache) {
+      return;
+    }
+
+    // Files without a known mtime get -1 so they are re-resolved on the next warm start
+    const entries = this.modules.map(module => ({
+      module,
+      mtime: this.fileMtimes.get(module.fsPath) ?? -1,
+    }));
+    await this.indexCache.save(this.projectHash, entries);
+  }
+
+  /**
+   * Debounce persisting the index after file watcher updates
+   */
+  private scheduleSave(): void {
+    if (!this.indexCache) {
+      return;
+    }
+
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.saveCache().catch(e => logger.error('Failed to save module index', e));
+    }, 2000);
+  }
+
+  /**
+   * Remove a file from the index
+   */
+  private removeFile(uri: vscode.Uri): void {
+    this.modules = this.modules.filter(m => m.fsPath !== uri.fsPath);
+    this.searchIndex.remove(uri.fsPath);
+    this.invalidateLookups();
+    this.fileMtimes.delete(uri.fsPath);
+    this.scheduleSave();
+    this.changeEmitter.fire({ kind: 'deleted', fsPath: uri.fsPath });
+  }
+
+  /**
+   * Drop the lookup maps after the module list changes
+   */
+  private invalidateLookups(): void {
+    this.instancePathMap = null;
+    this.fsPathMap = null;
+  }
+
+  /**
+   * Index a single file (used by the file watchers)
    * @param uri The file URI
    * @param isWallyPackage Whether this is a Wally package link file
+   * @param kind The watcher event that triggered indexing
    */
-  private indexFile(uri: vscode.Uri, isWallyPackage: boolean = false): void {
+  private async indexFile(uri: vscode.Uri, isWallyPackage: boolean, kind: 'created' | 'changed'): Promise<void> {
+    const mtime = await this.statMtime(uri);
+    const moduleInfo = await this.createModuleInfo(uri, isWallyPackage);
+
+    this.modules = this.modules.filter(m => m.fsPath !== uri.fsPath);
+    this.searchIndex.remove(uri.fsPath);
+    if (moduleInfo) {
+      this.modules.push(moduleInfo);
+      this.searchIndex.add(moduleInfo);
+    }
+    this.invalidateLookups();
+
+    if (mtime !== undefined) {
+      this.fileMtimes.set(uri.fsPath, mtime);
+    } else {
+      this.fileMtimes.delete(uri.fsPath);
+    }
+    this.scheduleSave();
+    this.changeEmitter.fire({ kind, fsPath: uri.fsPath });
+  }
+
+  /**
+   * Build the index entry for a file
+   * @param uri The file URI
+   * @param isWallyPackage Whether this is a Wally package link file
+   * @returns The module info, or null if the file is not a requirable module
+   */
+  private async createModuleInfo(uri: vscode.Uri, isWallyPackage: boolean = false): Promise<ModuleInfo | null> {
     const fsPath = uri.fsPath;
     const fileName = path.basename(fsPath);
     
     // Skip files starting with dot
     if (fileName.startsWith('.')) {
-      return;
+      return null;
     }
 
     // Skip _Index folder contents (Wally internal)
     if (fsPath.includes(`${path.sep}_Index${path.sep}`) || fsPath.includes('/_Index/')) {
-      return;
+      return null;
     }
 
     // Skip server and client scripts - they can't be required (they're Script/LocalScript, not ModuleScript)
@@ -94,7 +370,7 @@ export class ModuleIndexer {
     const isServerScript = (lowerFileName.endsWith('.server.luau') || lowerFileName.endsWith('.server.lua')) && !lowerFileName.startsWith('init.');
     const isClientScript = (lowerFileName.endsWith('.client.luau') || lowerFileName.endsWith('.client.lua')) && !lowerFileName.startsWith('init.');
     if (isServerScript || isClientScript) {
-      return;
+      return null;
     }
 
     // Remove extensions: .server.luau, .client.luau, .luau, .lua
@@ -140,15 +416,26 @@ export class ModuleIndexer {
     // Resolve instance path
     const instancePath = this.pathResolver.resolveInstancePath(fsPath);
 
-    const moduleInfo: ModuleInfo = {
+    return {
       name,
       fsPath,
       instancePath,
       relativePath,
       isWallyPackage,
+      exports: await this.readExports(fsPath),
     };
+  }
 
-    this.modules.push(moduleInfo);
+  /**
+   * Parse the exported members and types of a module file
+   */
+  private async readExports(fsPath: string): Promise<ModuleExports | undefined> {
+    try {
+      return parseModuleExports(await fs.promises.readFile(fsPath, 'utf-8'));
+    } catch (error) {
+      logger.debug(`Could not read exports of ${fsPath}: ${error}`);
+      return undefined;
+    }
   }
 
   /**
@@ -179,38 +466,36 @@ export class ModuleIndexer {
     };
 
     // .luau file handlers
-    const luauCreateDisposable = luauWatcher.onDidCreate((uri) => {
+    const luauCreateDisposable = luauWatcher.onDidCreate(async (uri) => {
       if (shouldIndex(uri)) {
-        this.indexFile(uri, false);
+        await this.handleFileEvent(uri, false, 'created');
       }
     });
 
-    const luauDeleteDisposable = luauWatcher.onDidDelete((uri) => {
-      this.modules = this.modules.filter(m => m.fsPath !== uri.fsPath);
+    const luauDeleteDisposable = luauWatcher.onDidDelete(async (uri) => {
+      await this.handleFileEvent(uri, false, 'deleted');
     });
 
-    const luauChangeDisposable = luauWatcher.onDidChange((uri) => {
+    const luauChangeDisposable = luauWatcher.onDidChange(async (uri) => {
       if (shouldIndex(uri)) {
-        this.modules = this.modules.filter(m => m.fsPath !== uri.fsPath);
-        this.indexFile(uri, false);
+        await this.handleFileEvent(uri, false, 'changed');
       }
     });
 
     // .lua file handlers (Wally packages)
-    const luaCreateDisposable = luaWatcher.onDidCreate((uri) => {
+    const luaCreateDisposable = luaWatcher.onDidCreate(async (uri) => {
       if (shouldIndex(uri)) {
-        this.indexFile(uri, true);
+        await this.handleFileEvent(uri, true, 'created');
       }
     });
 
-    const luaDeleteDisposable = luaWatcher.onDidDelete((uri) => {
-      this.modules = this.modules.filter(m => m.fsPath !== uri.fsPath);
+    const luaDeleteDisposable = luaWatcher.onDidDelete(async (uri) => {
+      await this.handleFileEvent(uri, true, 'deleted');
     });
 
-    const luaChangeDisposable = luaWatcher.onDidChange((uri) => {
+    const luaChangeDisposable = luaWatcher.onDidChange(async (uri) => {
       if (shouldIndex(uri)) {
-        this.modules = this.modules.filter(m => m.fsPath !== uri.fsPath);
-        this.indexFile(uri, true);
+        await this.handleFileEvent(uri, true, 'changed');
       }
     });
 
@@ -242,6 +527,46 @@ export class ModuleIndexer {
     return this.modules;
   }
 
+  /**
+   * Get the search index over the indexed modules, kept up to date as files change
+   */
+  public getSearchIndex(): ModuleSearchIndex {
+    return this.searchIndex;
+  }
+
+  /**
+   * Find the module at an instance path. Instance names are case-sensitive, so the match is exact.
+   */
+  public findByInstancePath(instancePath: string): ModuleInfo | undefined {
+    if (!this.instancePathMap) {
+      this.instancePathMap = new Map();
+      for (const module of this.modules) {
+        if (!this.instancePathMap.has(module.instancePath)) {
+          this.instancePathMap.set(module.instancePath, module);
+        }
+      }
+    }
+    return this.instancePathMap.get(instancePath);
+  }
+
+  /**
+   * Find a module whose instance path differs from the given one only in casing
+   */
+  public findByInstancePathIgnoringCase(instancePath: string): ModuleInfo | undefined {
+    const lower = instancePath.toLowerCase();
+    return this.modules.find(m => m.instancePath.toLowerCase() === lower);
+  }
+
+  /**
+   * Find the module indexed for a file
+   */
+  public findByFsPath(fsPath: string): ModuleInfo | undefined {
+    if (!this.fsPathMap) {
+      this.fsPathMap = new Map(this.modules.map(m => [m.fsPath, m]));
+    }
+    return this.fsPathMap.get(fsPath);
+  }
+
   /**
    * Get modules count
    */
@@ -254,6 +579,15 @@ export class ModuleIndexer {
    */
   public dispose(): void {
     this.disposeWatchers();
+    // Flush a pending save before dropping the index
+    if (this.saveTimer) {
+      this.saveCache().catch(e => logger.error('Failed to save module index', e));
+    }
     this.modules = [];
+    this.searchIndex.clear();
+    this.invalidateLookups();
+    this.fileMtimes.clear();
+    this.pendingFileEvents.clear();
+    this.changeEmitter.dispose();
   }
 }
\ No newline at end of file
@@ -0,0 +1,189 @@
+import { ModuleInfo } from './types';
+import { createBoundedMatcher, getMinCommonChars, prepareText, FuzzyMatchOptions, FuzzyMatchResult, PreparedText } from './fuzzyMatcher';
+
+/**
+ * A module with its search texts prepared for matching
+ */
+interface IndexEntry {
+  module: ModuleInfo;
+  /** Position in the indexer's module list, for visiting candidates in list order */
+  order: number;
+  name: PreparedText;
+  path: PreparedText;
+}
+
+/**
+ * A module matched by name or, when the name doesn't match, by relative path
+ */
+export interface ModuleMatch {
+  module: ModuleInfo;
+  /** Match against the module name, if it reached the minimum score */
+  name?: FuzzyMatchResult;
+  /** Match against the relative path, if it reached the minimum score and the name didn't */
+  path?: FuzzyMatchResult;
+}
+
+/**
+ * Entries by the characters of one of their search texts
+ */
+class CharacterPostings {
+  private postings: Map<string, Set<IndexEntry>> = new Map();
+  /** Length of the longest text added since the last clear */
+  public maxLength = 0;
+
+  public add(entry: IndexEntry, text: PreparedText): void {
+    this.maxLength = Math.max(this.maxLength, text.lower.length);
+    for (const char of text.charCounts.keys()) {
+      let posting = this.postings.get(char);
+      if (!posting) {
+        posting = new Set();
+        this.postings.set(char, posting);
+      }
+      posting.add(entry);
+    }
+  }
+
+  public remove(entry: IndexEntry, text: PreparedText): void {
+    for (const char of text.charCounts.keys()) {
+      const posting = this.postings.get(char);
+      posting?.delete(entry);
+      if (posting?.size === 0) this.postings.delete(char);
+    }
+  }
+
+  public clear(): void {
+    this.postings.clear();
+    this.maxLength = 0;
+  }
+
+  /**
+   * Get the entries whose text could share `minCommon` characters with the query: a text sharing that many
+   * contains at least one of any query characters that occur more than `charCount - minCommon` times in total,
+   * so the union of the rarest such characters' postings holds every candidate
+   */
+  public getCandidates(query: PreparedText, minCommon: number): Set<IndexEntry> {
+    const needed = query.charCount - minCommon + 1;
+    const chars = [...query.charCounts.entries()]
+      .sort(([a], [b]) => (this.postings.get(a)?.size ?? 0) - (this.postings.get(b)?.size ?? 0));
+
+    const candidates = new Set<IndexEntry>();
+    let covered = 0;
+    for (const [char, count] of chars) {
+      if (covered >= needed) break;
+      this.postings.get(char)?.forEach(entry => candidates.add(entry));
+      covered += count;
+    }
+    return candidates;
+  }
+}
+
+/**
+ * Search index over the module list: character postings narrow fuzzy matching down to the
+ * modules sharing enough characters with the query to reach the minimum score, and prepared
+ * search texts let matching skip the rest early. Kept in the same order as the indexer's
+ * module list, so results match a scan of that list.
+ */
+export class ModuleSearchIndex {
+  private entries: Map<string, IndexEntry> = new Map();
+  private namePostings = new CharacterPostings();
+  private pathPostings = new CharacterPostings();
+  private nextOrder = 0;
+
+  /**
+   * Replace the index contents with a module list
+   */
+  public rebuild(modules: ModuleInfo[]): void {
+    this.clear();
+    for (const module of modules) {
+      this.add(module);
+    }
+  }
+
+  /**
+   * Add a module at the end of the list, replacing any entry for the same file
+   */
+  public add(module: ModuleInfo): void {
+    this.remove(module.fsPath);
+
+    const entry: IndexEntry = {
+      module,
+      order: this.nextOrder++,
+      name: prepareText(module.name),
+      path: prepareText(module.relativePath),
+    };
+    this.entries.set(module.fsPath, entry);
+    this.namePostings.add(entry, entry.name);
+    this.pathPostings.add(entry, entry.path);
+  }
+
+  /**
+   * Remove the module indexed for a file
+   */
+  public remove(fsPath: string): void {
+    const entry = this.entries.get(fsPath);
+    if (!entry) return;
+
+    this.entries.delete(fsPath);
+    this.namePostings.remove(entry, entry.name);
+    this.pathPostings.remove(entry, entry.path);
+  }
+
+  /**
+   * Remove all modules
+   */
+  public clear(): void {
+    this.entries.clear();
+    this.namePostings.clear();
+    this.pathPostings.clear();
+    this.nextOrder = 0;
+  }
+
+  /**
+   * Fuzzy match modules by name, or by relative path when the name doesn't match, in module list order.
+   * Returns the modules whose name or path scores at least the minimum score, with the same results as
+   * fuzzyMatch for the text that does. Only texts sharing enough characters with the query are matched,
+   * unless the query is too short or the minimum score too low to rule any out.
+   * @param filter Only consider modules passing this check
+   */
+  public matchModules(
+    query: string,
+    options: Partial<FuzzyMatchOptions> = {},
+    filter?: (module: ModuleInfo) => boolean
+  ): ModuleMatch[] {
+    const match = createBoundedMatcher(query, options);
+    const preparedQuery = prepareText(query);
+
+    const narrow = (postings: CharacterPostings): Set<IndexEntry> | undefined => {
+      const minCommon = getMinCommonChars(preparedQuery, postings.maxLength, options);
+      return minCommon > 0 ? postings.getCandidates(preparedQuery, minCommon) : undefined;
+    };
+    const nameCandidates = narrow(this.namePostings);
+    const pathCandidates = narrow(this.pathPostings);
+
+    const entries = nameCandidates && pathCandidates
+      ? [...new Set([...nameCandidates, ...pathCandidates])].sort((a, b) => a.order - b.order)
+      : this.entries.values();
+
+    const results: ModuleMatch[] = [];
+    for (const entry of entries) {
+      if (filter && !filter(entry.module)) continue;
+
+      if (!nameCandidates || nameCandidates.has(entry)) {
+        const name = match(entry.name);
+        if (name.isMatch) {
+          results.push({ module: entry.module, name });
+          continue;
+        }
+      }
+
+      if (!pathCandidates || pathCandidates.has(entry)) {
+        const path = match(entry.path);
+        if (path.isMatch) {
+          results.push({ module: entry.module, path });
+        }
+      }
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,21 @@
+import { ModuleInfo } from './types';
+import { getInstanceRealm } from './realm';
+
+/**
+ * Get module type tag
+ */
+export function getModuleTag(moduleInfo: ModuleInfo): string {
+  const nameLower = moduleInfo.name.toLowerCase();
+  const pathLower = moduleInfo.instancePath.toLowerCase();
+
+  if (moduleInfo.isWallyPackage) return 'Wally';
+  if (nameLower.includes('service')) return 'Service';
+  if (nameLower.includes('controller')) return 'Controller';
+  if (nameLower.includes('component')) return 'Component';
+  if (nameLower.includes('util') || nameLower.includes('helper')) return 'Utility';
+  const realm = getInstanceRealm(moduleInfo.instancePath);
+  if (realm === 'server') return 'Server';
+  if (realm === 'client') return 'Client';
+  if (pathLower.includes('replicatedstorage')) return 'Shared';
+  return 'Module';
+}
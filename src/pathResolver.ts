@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import { Sourcemap, SourcemapNode, RojoProject, RojoTreeNode } from './types';
+import * as crypto from 'crypto';
+import { Sourcemap, SourcemapNode, RojoProject, RojoTreeNode, InstancePathSource } from './types';
 import { logger } from './logger';
 
 /**
@@ -54,6 +55,8 @@ export class PathResolver {
   private sourcemapCache: Map<string, Sourcemap> = new Map();
   private rojoProjectCache: Map<string, RojoProject> = new Map();
   private fileToInstancePathCache: Map<string, string> = new Map();
+  private fileToSourceCache: Map<string, InstancePathSource> = new Map();
+  private sourcemapInstancePaths: Set<string> | null = null;
   private initialized: boolean = false;
 
   constructor(private workspaceFolders: readonly vscode.WorkspaceFolder[]) {
@@ -161,6 +164,8 @@ export class PathResolver {
   public reloadSourcemaps(): void {
     this.sourcemapCache.clear();
     this.fileToInstancePathCache.clear();
+    this.fileToSourceCache.clear();
+    this.sourcemapInstancePaths = null;
     this.loadSourcemaps();
   }
 
@@ -170,9 +175,35 @@ export class PathResolver {
   public reloadRojoProjects(): void {
     this.rojoProjectCache.clear();
     this.fileToInstancePathCache.clear();
+    this.fileToSourceCache.clear();
     this.loadRojoProjects();
   }
 
+  /**
+   * Hash the sourcemap and Rojo project files of every workspace folder.
+   * Instance paths are only valid for the project files they were resolved against.
+   */
+  public async computeProjectHash(): Promise<string> {
+    const hash = crypto.createHash('sha1');
+
+    for (const folder of this.workspaceFolders) {
+      hash.update(folder.uri.fsPath);
+
+      for (const fileName of ['sourcemap.json', 'default.project.json']) {
+        const uri = vscode.Uri.file(path.join(folder.uri.fsPath, fileName));
+        try {
+          const contentBytes = await vscode.workspace.fs.readFile(uri);
+          hash.update(fileName);
+          hash.update(contentBytes);
+        } catch (error) {
+          hash.update(`${fileName}:missing`);
+        }
+      }
+    }
+
+    return hash.digest('hex');
+  }
+
   /**
    * Resolve a file system path to a Roblox Instance path
    */
@@ -189,6 +220,7 @@ export class PathResolver {
       if (sourcemapSegments && sourcemapSegments.length > 0) {
         const fullPath = 'game' + sourcemapSegments.map(s => formatPathSegment(s)).join('');
         this.fileToInstancePathCache.set(fsPath, fullPath);
+        this.fileToSourceCache.set(fsPath, 'sourcemap');
         return fullPath;
       }
 
@@ -197,6 +229,7 @@ export class PathResolver {
       if (rojoSegments && rojoSegments.length > 0) {
         const fullPath = 'game' + rojoSegments.map(s => formatPathSegment(s)).join('');
         this.fileToInstancePathCache.set(fsPath, fullPath);
+        this.fileToSourceCache.set(fsPath, 'rojoProject');
         return fullPath;
       }
 
@@ -204,16 +237,52 @@ export class PathResolver {
       const conventionSegments = this.resolveFromConventionAsSegments(fsPath);
       const fullPath = 'game' + conventionSegments.map(s => formatPathSegment(s)).join('');
       this.fileToInstancePathCache.set(fsPath, fullPath);
+      this.fileToSourceCache.set(fsPath, 'convention');
       return fullPath;
     } catch (error) {
       // Fallback to a simple path on error
       const fileName = path.basename(fsPath);
       const safePath = 'game' + formatPathSegment(fileName);
       this.fileToInstancePathCache.set(fsPath, safePath);
+      this.fileToSourceCache.set(fsPath, 'convention');
       return safePath;
     }
   }
 
+  /**
+   * Get how a file's instance path was determined
+   */
+  public getResolutionSource(fsPath: string): InstancePathSource {
+    this.resolveInstancePath(fsPath);
+    return this.fileToSourceCache.get(fsPath) ?? 'convention';
+  }
+
+  /**
+   * Check whether any loaded sourcemap contains an instance at the given path
+   */
+  public instanceExistsInSourcemap(instancePath: string): boolean {
+    if (!this.sourcemapInstancePaths) {
+      this.sourcemapInstancePaths = new Set();
+      for (const sourcemap of this.sourcemapCache.values()) {
+        this.collectSourcemapPaths(sourcemap.children || [], 'game');
+      }
+    }
+    return this.sourcemapInstancePaths.has(instancePath);
+  }
+
+  /**
+   * Add the instance paths of a sourcemap subtree to the lookup set
+   */
+  private collectSourcemapPaths(nodes: SourcemapNode[], parentPath: string): void {
+    for (const node of nodes) {
+      const nodePath = parentPath + formatPathSegment(node.name);
+      this.sourcemapInstancePaths!.add(nodePath);
+      if (node.children) {
+        this.collectSourcemapPaths(node.children, nodePath);
+      }
+    }
+  }
+
   /**
    * Resolve path using sourcemap.json (returns segments array)
    */
@@ -485,6 +554,7 @@ export class PathResolver {
    */
   public clearCache(): void {
     this.fileToInstancePathCache.clear();
+    this.fileToSourceCache.clear();
   }
 
   /**
@@ -492,8 +562,10 @@ export class PathResolver {
    */
   public dispose(): void {
     this.sourcemapCache.clear();
+    this.sourcemapInstancePaths = null;
     this.rojoProjectCache.clear();
     this.fileToInstancePathCache.clear();
+    this.fileToSourceCache.clear();
     this.initialized = false;
   }
 }
\ No newline at end of file
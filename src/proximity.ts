@@ -0,0 +1,59 @@
+import { Realm } from './types';
+import { splitInstancePath } from './instancePath';
+import { getInstanceRealm } from './realm';
+
+/**
+ * How close a module is to the file being edited
+ */
+export interface ModuleProximity {
+  /** 0 (unrelated) to 1 (same folder and realm) */
+  score: number;
+  /** Short description such as "sibling" or "2 levels up", or null when the module is in another service */
+  relationship: string | null;
+}
+
+/**
+ * Describe where a module sits relative to the current script
+ */
+function describeRelationship(parentsNeeded: number, childrenNeeded: number): string {
+  if (childrenNeeded === 0) return parentsNeeded === 0 ? 'this module' : parentsNeeded === 1 ? 'parent' : 'ancestor';
+  if (parentsNeeded === 0) return childrenNeeded === 1 ? 'child' : 'descendant';
+  if (parentsNeeded === 1) return childrenNeeded === 1 ? 'sibling' : 'in sibling folder';
+
+  const levels = parentsNeeded - 1;
+  return `${levels} ${levels === 1 ? 'level' : 'levels'} up`;
+}
+
+/**
+ * Score a module's closeness to the current script by shared ancestry, sibling/child relationship and realm
+ * @param currentScriptPath Instance path of the file being edited, if known
+ */
+export function getModuleProximity(currentScriptPath: string | null, currentRealm: Realm, targetPath: string): ModuleProximity {
+  const sameRealm = getInstanceRealm(targetPath) === currentRealm ? 1 : 0;
+  if (!currentScriptPath) {
+    return { score: 0.2 * sameRealm, relationship: null };
+  }
+
+  const current = splitInstancePath(currentScriptPath);
+  const target = splitInstancePath(targetPath);
+
+  let common = 0;
+  while (common < current.length && common < target.length && current[common] === target[common]) {
+    common++;
+  }
+
+  // Only `game` in common means different services
+  if (common < 2) {
+    return { score: 0.2 * sameRealm, relationship: null };
+  }
+
+  const parentsNeeded = current.length - common;
+  const childrenNeeded = target.length - common;
+  const ancestry = (common - 1) / (current.length - 1);
+  const closeness = parentsNeeded <= 1 ? 1 : parentsNeeded === 2 ? 0.5 : 0;
+
+  return {
+    score: 0.5 * ancestry + 0.3 * closeness + 0.2 * sameRealm,
+    relationship: describeRelationship(parentsNeeded, childrenNeeded),
+  };
+}
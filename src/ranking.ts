@@ -0,0 +1,64 @@
+import { ModuleInfo, RankingWeights } from './types';
+import { FuzzyMatchResult } from './fuzzyMatcher';
+
+/**
+ * Default weight of each ranking signal
+ */
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  match: 1,
+  matchType: 0.3,
+  nameLength: 0.2,
+  pathRelevance: 0.8,
+  wallyPackage: 0.05,
+  usage: 0.15,
+  proximity: 0.075,
+};
+
+/**
+ * Value of each kind of name match for the matchType signal
+ */
+const MATCH_TYPE_SIGNALS: Record<FuzzyMatchResult['matchType'], number> = {
+  exact: 1,
+  prefix: 0.8,
+  acronym: 0.6,
+  substring: 0.5,
+  subsequence: 0.2,
+  fuzzy: 0,
+  none: 0,
+};
+
+/**
+ * Values (0 to 1) of the signals a completion result is ranked by
+ */
+export type RankingSignals = Record<keyof RankingWeights, number>;
+
+/**
+ * Get the signals that come from matching the query, all 0 for an empty query.
+ * The relative path ends with the module name, so it only counts for modules whose name doesn't match.
+ * @param name The query matched against the module name, if it matched
+ * @param path The query matched against the module's relative path, if it matched
+ */
+export function getMatchSignals(
+  query: string,
+  module: ModuleInfo,
+  name: FuzzyMatchResult | undefined,
+  path: FuzzyMatchResult | undefined
+): Pick<RankingSignals, 'match' | 'matchType' | 'nameLength' | 'pathRelevance'> {
+  return {
+    match: name?.score ?? 0,
+    matchType: name ? MATCH_TYPE_SIGNALS[name.matchType] : 0,
+    nameLength: name ? Math.min(1, query.length / module.name.length) : 0,
+    pathRelevance: name ? 0 : path?.score ?? 0,
+  };
+}
+
+/**
+ * Combine ranking signals into one score using the configured weights
+ */
+export function combineSignals(signals: RankingSignals, weights: RankingWeights): number {
+  let score = 0;
+  for (const key of Object.keys(signals) as (keyof RankingWeights)[]) {
+    score += signals[key] * weights[key];
+  }
+  return score;
+}
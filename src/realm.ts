@@ -0,0 +1,43 @@
+import * as path from 'path';
+import { Realm } from './types';
+import { splitInstancePath } from './instancePath';
+
+/**
+ * Services whose contents only exist on the server
+ */
+const SERVER_SERVICES = new Set(['ServerScriptService', 'ServerStorage']);
+
+/**
+ * Services whose scripts run on the client
+ */
+const CLIENT_SERVICES = new Set(['StarterPlayer', 'StarterGui', 'StarterPack', 'ReplicatedFirst']);
+
+/**
+ * Determine which realm an instance lives in from its location
+ */
+export function getInstanceRealm(instancePath: string): Realm {
+  const service = splitInstancePath(instancePath)[1];
+  if (!service) return 'shared';
+  if (SERVER_SERVICES.has(service)) return 'server';
+  if (CLIENT_SERVICES.has(service)) return 'client';
+  return 'shared';
+}
+
+/**
+ * Determine which realm a file runs in.
+ * Script suffixes (`.server.luau`, `.client.luau`) take precedence over the file's location.
+ */
+export function getFileRealm(fsPath: string, instancePath: string | null): Realm {
+  const fileName = path.basename(fsPath).toLowerCase();
+  if (/\.server\.luau?$/.test(fileName)) return 'server';
+  if (/\.client\.luau?$/.test(fileName)) return 'client';
+  return instancePath ? getInstanceRealm(instancePath) : 'shared';
+}
+
+/**
+ * Check whether code in one realm can require a module in another.
+ * Server-only modules never replicate, so the client can't require them.
+ */
+export function canRequireAcrossRealms(fromRealm: Realm, targetRealm: Realm): boolean {
+  return !(fromRealm === 'client' && targetRealm === 'server');
+}
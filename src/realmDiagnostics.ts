@@ -0,0 +1,74 @@
+import * as vscode from 'vscode';
+import { DependencyGraph } from './dependencyGraph';
+import { ModuleIndexer } from './moduleIndexer';
+import { PathResolver } from './pathResolver';
+import { ExtensionConfig } from './types';
+import { getFileRealm, getInstanceRealm, canRequireAcrossRealms } from './realm';
+
+/**
+ * Warns when client code requires modules that only exist on the server
+ */
+export class RealmDiagnostics {
+  private diagnostics: vscode.DiagnosticCollection;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private graph: DependencyGraph,
+    private moduleIndexer: ModuleIndexer,
+    private pathResolver: PathResolver,
+    private config: ExtensionConfig
+  ) {
+    this.diagnostics = vscode.languages.createDiagnosticCollection('robloxSuperRequire.realm');
+    this.disposables.push(this.graph.onDidChange(() => this.update()));
+  }
+
+  /**
+   * Recompute realm diagnostics for the whole workspace
+   */
+  public update(): void {
+    this.diagnostics.clear();
+    if (!this.config.enabled || !this.config.detectRealmViolations) return;
+
+    for (const fsPath of this.graph.getFiles()) {
+      const fromRealm = getFileRealm(fsPath, this.pathResolver.resolveInstancePath(fsPath));
+      const fileDiagnostics: vscode.Diagnostic[] = [];
+
+      for (const require of this.graph.getDependencies(fsPath)) {
+        const target = this.moduleIndexer.findByFsPath(require.toPath!);
+        if (!target) continue;
+
+        const targetRealm = getInstanceRealm(target.instancePath);
+        if (canRequireAcrossRealms(fromRealm, targetRealm)) continue;
+
+        const diagnostic = new vscode.Diagnostic(
+          require.call.callRange,
+          `Client code requires server-only module ${target.name} (${target.instancePath}). It never replicates to the client.`,
+          vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = 'Roblox Super Require';
+        diagnostic.code = 'realm-violation';
+        fileDiagnostics.push(diagnostic);
+      }
+
+      if (fileDiagnostics.length > 0) {
+        this.diagnostics.set(vscode.Uri.file(fsPath), fileDiagnostics);
+      }
+    }
+  }
+
+  public updateConfig(config: ExtensionConfig): void {
+    this.config = config;
+    this.update();
+  }
+
+  /**
+   * Dispose resources
+   */
+  public dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+    this.diagnostics.dispose();
+  }
+}
@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DependencyGraph, ResolvedRequire } from './dependencyGraph';
+import { PathResolver } from './pathResolver';
+import { ExtensionConfig } from './types';
+import { extractDefinedServices, extractDefinedVariables, resolveRequireExpression } from './requireParser';
+import { buildRequirePathInStyle, detectRequireStyle } from './requirePathBuilder';
+import { logger } from './logger';
+
+/**
+ * Requires affected by a pending rename, captured before the files move
+ */
+interface PendingRename {
+  /** Old file path to new file path, for every Luau file that moves */
+  moves: Map<string, string>;
+  requires: ResolvedRequire[];
+}
+
+/**
+ * Rewrites requires across the workspace when modules are moved or renamed
+ */
+export class RequireRenameHandler {
+  private pending: PendingRename | null = null;
+  private disposables: vscode.Disposable[] = [];
+
+  constructor(
+    private graph: DependencyGraph,
+    private pathResolver: PathResolver,
+    private config: ExtensionConfig
+  ) {
+    this.disposables.push(
+      vscode.workspace.onWillRenameFiles(e => this.captureRename(e.files)),
+      vscode.workspace.onDidRenameFiles(e => {
+        this.applyRename().catch(error => logger.error('Failed to update requires after rename', error));
+      })
+    );
+  }
+
+  /**
+   * Record which files move and which requires point at them, while the graph still has the old paths
+   */
+  private captureRename(files: ReadonlyArray<{ readonly oldUri: vscode.Uri; readonly newUri: vscode.Uri }>): void {
+    this.pending = null;
+    if (!this.config.enabled || this.config.updateRequiresOnRename === 'never') return;
+
+    const moves = new Map<string, string>();
+    const knownFiles = this.graph.getFiles();
+    const knownFileSet = new Set(knownFiles);
+
+    for (const { oldUri, newUri } of files) {
+      const oldPath = oldUri.fsPath;
+      const newPath = newUri.fsPath;
+
+      if (knownFileSet.has(oldPath)) {
+        moves.set(oldPath, newPath);
+        continue;
+      }
+
+      // Folder rename: every known file under it moves
+      const folderPrefix = oldPath + path.sep;
+      for (const file of knownFiles) {
+        if (file.startsWith(folderPrefix)) {
+          moves.set(file, newPath + file.substring(oldPath.length));
+        }
+      }
+    }
+
+    if (moves.size === 0) return;
+
+    const requires: ResolvedRequire[] = [];
+    for (const file of knownFiles) {
+      for (const require of this.graph.getRequires(file)) {
+        const targetMoves = require.toPath !== null && moves.has(require.toPath);
+        // Relative requires, and variable ones whose local may be built from `script`, depend on where the file is
+        const style = detectRequireStyle(require.call.expression);
+        const dependsOnLocation = moves.has(file) && (style === 'relative' || style === 'variable');
+        if (targetMoves || dependsOnLocation) {
+          requires.push(require);
+        }
+      }
+    }
+
+    this.pending = { moves, requires };
+  }
+
+  /**
+   * Build the edit rewriting affected requires for the new locations and offer it
+   */
+  private async applyRename(): Promise<void> {
+    const pending = this.pending;
+    this.pending = null;
+    if (!pending || pending.requires.length === 0) return;
+
+    const { moves, requires } = pending;
+    const edit = new vscode.WorkspaceEdit();
+    const documents = new Map<string, vscode.TextDocument>();
+    let count = 0;
+
+    for (const require of requires) {
+      if (!require.instancePath) continue;
+
+      const fromPath = moves.get(require.fromPath) ?? require.fromPath;
+      const targetInstancePath = require.toPath && moves.has(require.toPath)
+        ? this.pathResolver.resolveInstancePath(moves.get(require.toPath)!)
+        : require.instancePath;
+
+      let document = documents.get(fromPath);
+      if (!document) {
+        try {
+          document = await vscode.workspace.openTextDocument(vscode.Uri.file(fromPath));
+        } catch (error) {
+          logger.debug(`Could not open ${fromPath} to update requires`);
+          continue;
+        }
+        documents.set(fromPath, document);
+      }
+
+      // Skip requires whose text changed since the graph scanned them
+      const currentText = document.getText(require.call.argumentRange).replace(/\s+/g, '');
+      if (currentText !== require.call.expression.replace(/\s+/g, '')) continue;
+
+      const text = document.getText();
+      const scriptPath = this.pathResolver.resolveInstancePath(fromPath);
+      const variables = extractDefinedVariables(text, scriptPath);
+      if (resolveRequireExpression(require.call.expression, variables, scriptPath) === targetInstancePath) continue;
+
+      // Locals built from `script` point elsewhere after the file moves, so only build on the ones that don't
+      const previousVariables = extractDefinedVariables(text, this.pathResolver.resolveInstancePath(require.fromPath));
+      const unmovedVariables = variables.filter(v =>
+        previousVariables.some(p => p.varName === v.varName && p.instancePath === v.instancePath)
+      );
+      const newExpression = buildRequirePathInStyle(
+        detectRequireStyle(require.call.expression),
+        targetInstancePath,
+        extractDefinedServices(text),
+        unmovedVariables,
+        scriptPath,
+        this.config
+      );
+
+      if (newExpression.replace(/\s+/g, '') === currentText) continue;
+
+      edit.replace(document.uri, require.call.argumentRange, newExpression, {
+        label: 'Update require path',
+        needsConfirmation: this.config.updateRequiresOnRename === 'preview',
+      });
+      count++;
+    }
+
+    if (count === 0) return;
+
+    const fileCount = new Set(edit.entries().map(([uri]) => uri.fsPath)).size;
+    if (this.config.updateRequiresOnRename === 'prompt') {
+      const choice = await vscode.window.showInformationMessage(
+        `Update ${count} require${count === 1 ? '' : 's'} in ${fileCount} file${fileCount === 1 ? '' : 's'} affected by the move?`,
+        'Update',
+        'Skip'
+      );
+      if (choice !== 'Update') return;
+    }
+
+    await vscode.workspace.applyEdit(edit);
+    logger.info(`Updated ${count} requires in ${fileCount} files after rename`);
+  }
+
+  public updateConfig(config: ExtensionConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Dispose resources
+   */
+  public dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+    this.pending = null;
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Locates the block of service and require declarations at the top of a file
+ */
+
+/**
+ * Kind of declaration in a require block
+ */
+export type RequireBlockEntryKind = 'service' | 'alias' | 'require';
+
+/**
+ * A single-line declaration in the require block
+ */
+export interface RequireBlockEntry {
+  /** Zero-based line number */
+  line: number;
+  kind: RequireBlockEntryKind;
+  /** The declared local */
+  varName: string;
+  /** Right-hand side of the declaration (the require argument for requires) */
+  expression: string;
+  /** Full line text */
+  text: string;
+}
+
+/**
+ * The contiguous block of declarations at the top of a file
+ */
+export interface RequireBlock {
+  /** First line of the first declaration */
+  startLine: number;
+  /** Last line of the last declaration */
+  endLine: number;
+  entries: RequireBlockEntry[];
+}
+
+const SERVICE_PATTERN = /^local\s+([a-zA-Z_]\w*)\s*=\s*(game\s*:\s*GetService\s*\(\s*["']\w+["']\s*\)|game\.\w+)\s*;?\s*(?:--.*)?$/;
+const REQUIRE_PATTERN = /^local\s+([a-zA-Z_]\w*)\s*(?::[^=]+)?=\s*require\s*\((.*?)\)\s*;?\s*(?:--.*)?$/;
+const ALIAS_PATTERN = /^local\s+([a-zA-Z_]\w*)\s*=\s*([a-zA-Z_]\w*(?:\s*(?:\.\s*[a-zA-Z_]\w*|\[\s*["'][^"']*["']\s*\]|:\s*WaitForChild\s*\([^)]*\)))+)\s*;?\s*(?:--.*)?$/;
+
+/**
+ * Classify a line as a require block declaration
+ */
+export function parseRequireBlockLine(text: string, line: number): RequireBlockEntry | null {
+  const trimmed = text.trim();
+
+  let match = SERVICE_PATTERN.exec(trimmed);
+  if (match) return { line, kind: 'service', varName: match[1], expression: match[2], text };
+
+  match = REQUIRE_PATTERN.exec(trimmed);
+  if (match) return { line, kind: 'require', varName: match[1], expression: match[2].trim(), text };
+
+  match = ALIAS_PATTERN.exec(trimmed);
+  if (match) return { line, kind: 'alias', varName: match[1], expression: match[2], text };
+
+  return null;
+}
+
+/**
+ * Check whether a line is blank or a comment
+ */
+function isBlankOrComment(text: string): boolean {
+  const trimmed = text.trim();
+  return trimmed === '' || trimmed.startsWith('--');
+}
+
+/**
+ * Get the first line after the file header (directives like `--!strict` and leading comments)
+ */
+export function getHeaderEndLine(lines: string[]): number {
+  let line = 0;
+  while (line < lines.length && isBlankOrComment(lines[line])) {
+    line++;
+  }
+
+  // Step back over blank lines so code inserted here sits right after the header
+  while (line > 0 && lines[line - 1].trim() === '') {
+    line--;
+  }
+  return line;
+}
+
+/**
+ * Find the contiguous block of service, alias and require declarations at the top of a file.
+ * Blank lines and comments inside the block are allowed.
+ */
+export function findRequireBlock(lines: string[]): RequireBlock | null {
+  const entries: RequireBlockEntry[] = [];
+
+  for (let line = 0; line < lines.length; line++) {
+    const text = lines[line];
+    if (isBlankOrComment(text)) continue;
+
+    const entry = parseRequireBlockLine(text, line);
+    if (!entry) break;
+    entries.push(entry);
+  }
+
+  if (entries.length === 0) return null;
+
+  return {
+    startLine: entries[0].line,
+    endLine: entries[entries.length - 1].line,
+    entries,
+  };
+}
+
+/**
+ * Get the line a new require should be inserted at: after the last require in the block,
+ * else after the block, else after the file header
+ * @returns The line to insert before, and whether a blank separator line is needed after the insertion
+ */
+export function getRequireInsertionPoint(lines: string[]): { line: number; needsSeparator: boolean } {
+  const block = findRequireBlock(lines);
+
+  if (block) {
+    const requires = block.entries.filter(e => e.kind === 'require');
+    const lastEntry = requires.length > 0 ? requires[requires.length - 1] : block.entries[block.entries.length - 1];
+    return { line: lastEntry.line + 1, needsSeparator: false };
+  }
+
+  const line = getHeaderEndLine(lines);
+  const nextLine = lines[line];
+  return { line, needsSeparator: nextLine !== undefined && nextLine.trim() !== '' };
+}
+
+/**
+ * Get the line a new require should be inserted at to keep the block's requires in alphabetical order.
+ * Falls back to getRequireInsertionPoint when the block has no requires yet.
+ */
+export function getSortedRequireInsertionPoint(lines: string[], varName: string): { line: number; needsSeparator: boolean } {
+  const block = findRequireBlock(lines);
+  const requires = block ? block.entries.filter(e => e.kind === 'require') : [];
+  if (requires.length === 0) return getRequireInsertionPoint(lines);
+
+  const nameLower = varName.toLowerCase();
+  const next = requires.find(e => e.varName.toLowerCase().localeCompare(nameLower) > 0);
+  return { line: next ? next.line : requires[requires.length - 1].line + 1, needsSeparator: false };
+}
+
+/**
+ * Get the name of the service a service declaration refers to, e.g. `ReplicatedStorage` for
+ * `local RS = game:GetService("ReplicatedStorage")`
+ */
+export function getServiceName(entry: RequireBlockEntry): string {
+  return /(\w+)["']?\s*\)?$/.exec(entry.expression)![1];
+}
+
+/**
+ * Compare two service names: services listed in `order` come first in that order, the rest alphabetically
+ */
+export function compareServiceNames(a: string, b: string, order: string[]): number {
+  const indexA = order.indexOf(a);
+  const indexB = order.indexOf(b);
+  if (indexA !== -1 || indexB !== -1) {
+    if (indexA === -1) return 1;
+    if (indexB === -1) return -1;
+    return indexA - indexB;
+  }
+  return a.localeCompare(b);
+}
+
+/**
+ * Get the line a new service declaration should be inserted at to keep the block's services ordered.
+ * Without existing services it goes at the top of the block, separated from the declarations after it.
+ */
+export function getServiceInsertionPoint(lines: string[], serviceName: string, order: string[]): { line: number; needsSeparator: boolean } {
+  const block = findRequireBlock(lines);
+  if (!block) return getRequireInsertionPoint(lines);
+
+  const services = block.entries.filter(e => e.kind === 'service');
+  if (services.length === 0) return { line: block.startLine, needsSeparator: true };
+
+  const next = services.find(e => compareServiceNames(getServiceName(e), serviceName, order) > 0);
+  return { line: next ? next.line : services[services.length - 1].line + 1, needsSeparator: false };
+}
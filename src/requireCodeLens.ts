@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import { DependencyGraph } from './dependencyGraph';
+import { ModuleIndexer } from './moduleIndexer';
+import { ExtensionConfig } from './types';
+
+/**
+ * Shows how many modules require a module, and how many it requires, at the top of the file
+ */
+export class RequireCodeLensProvider implements vscode.CodeLensProvider {
+  private changeEmitter = new vscode.EventEmitter<void>();
+  private disposables: vscode.Disposable[] = [];
+
+  public readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+  constructor(
+    private graph: DependencyGraph,
+    private moduleIndexer: ModuleIndexer,
+    private config: ExtensionConfig
+  ) {
+    this.disposables.push(this.graph.onDidChange(() => this.changeEmitter.fire()));
+  }
+
+  public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    if (!this.config.enabled || !this.config.showRequireCodeLens) return [];
+
+    const module = this.moduleIndexer.findByFsPath(document.uri.fsPath);
+    if (!module) return [];
+
+    const range = new vscode.Range(0, 0, 0, 0);
+
+    const dependents = this.graph.getDependents(module.fsPath);
+    const dependentFiles = new Set(dependents.map(r => r.fromPath));
+    const dependentLocations = dependents.map(r =>
+      new vscode.Location(vscode.Uri.file(r.fromPath), r.call.callRange)
+    );
+
+    const dependencyFiles = [...new Set(this.graph.getDependencies(module.fsPath).map(r => r.toPath!))];
+    const dependencyLocations = dependencyFiles.map(fsPath =>
+      new vscode.Location(vscode.Uri.file(fsPath), range)
+    );
+
+    const requiredBy = dependentFiles.size;
+    return [
+      new vscode.CodeLens(range, {
+        title: `Required by ${requiredBy} module${requiredBy === 1 ? '' : 's'}`,
+        command: 'editor.action.showReferences',
+        arguments: [document.uri, range.start, dependentLocations],
+      }),
+      new vscode.CodeLens(range, {
+        title: `Requires ${dependencyFiles.length}`,
+        command: 'editor.action.showReferences',
+        arguments: [document.uri, range.start, dependencyLocations],
+      }),
+    ];
+  }
+
+  public updateConfig(config: ExtensionConfig): void {
+    this.config = config;
+    this.changeEmitter.fire();
+  }
+
+  /**
+   * Dispose resources
+   */
+  public dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+    this.changeEmitter.dispose();
+  }
+}
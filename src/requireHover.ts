@@ -0,0 +1,97 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { RequireResolver, DocumentRequire } from './requireResolver';
+import { PathResolver } from './pathResolver';
+import { InstancePathSource, ModuleExports } from './types';
+import { parseModuleExports, parseDocComment } from './exportParser';
+import { appendExportsMarkdown } from './moduleDocs';
+import { getModuleTag } from './moduleTags';
+import { getInstanceRealm } from './realm';
+import { getModuleVariableName } from './variableNaming';
+
+const SOURCE_LABELS: Record<InstancePathSource, string> = {
+  sourcemap: 'sourcemap.json',
+  rojoProject: 'Rojo project (default.project.json)',
+  convention: 'folder convention',
+};
+
+const REALM_LABELS = {
+  server: 'Server',
+  client: 'Client',
+  shared: 'Shared',
+};
+
+/**
+ * Hover cards for require paths and the locals bound to them
+ */
+export class RequireHoverProvider implements vscode.HoverProvider {
+  constructor(
+    private resolver: RequireResolver,
+    private pathResolver: PathResolver
+  ) {}
+
+  public provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+    const inCall = this.resolver.findAt(document, position);
+    if (inCall) {
+      return this.createHover(inCall, inCall.call.argumentRange);
+    }
+
+    // Hovering a local bound to a require, e.g. `Janitor` in `Janitor.new()`
+    const wordRange = document.getWordRangeAtPosition(position, /[a-zA-Z_]\w*/);
+    if (!wordRange) return undefined;
+
+    const before = document.lineAt(position.line).text.substring(0, wordRange.start.character);
+    if (/[.:]\s*$/.test(before)) return undefined;
+
+    const word = document.getText(wordRange);
+    const bound = this.resolver.resolveDocument(document).find(r => r.call.varName === word);
+    return bound ? this.createHover(bound, wordRange) : undefined;
+  }
+
+  /**
+   * Build the hover card for a resolved require
+   */
+  private createHover(require: DocumentRequire, range: vscode.Range): vscode.Hover | undefined {
+    const doc = new vscode.MarkdownString();
+
+    if (!require.module) {
+      if (!require.instancePath) return undefined;
+      doc.appendMarkdown(`**Module not found:** \`${require.instancePath}\``);
+      return new vscode.Hover(doc, range);
+    }
+
+    const module = require.module;
+    const sourcePath = require.sourcePath ?? module.fsPath;
+    const source = this.readFile(sourcePath);
+
+    doc.appendMarkdown(`**${module.name}** · ${getModuleTag(module)}\n\n`);
+    doc.appendMarkdown(`**Path:** \`${module.instancePath}\`\n\n`);
+    doc.appendMarkdown(`**File:** [${vscode.workspace.asRelativePath(sourcePath)}](${vscode.Uri.file(sourcePath)})\n\n`);
+    doc.appendMarkdown(`**Resolved via:** ${SOURCE_LABELS[this.pathResolver.getResolutionSource(module.fsPath)]}`);
+    doc.appendMarkdown(` · **Realm:** ${REALM_LABELS[getInstanceRealm(module.instancePath)]}\n\n`);
+
+    const docComment = source ? parseDocComment(source) : undefined;
+    if (docComment) {
+      doc.appendMarkdown('---\n\n');
+      doc.appendText(docComment);
+      doc.appendMarkdown('\n\n');
+    }
+
+    // Wally link files export nothing themselves, so parse the package source
+    let exports: ModuleExports | undefined = module.exports;
+    if (sourcePath !== module.fsPath && source) {
+      exports = parseModuleExports(source);
+    }
+    appendExportsMarkdown(doc, exports, require.call.varName ?? getModuleVariableName(module));
+
+    return new vscode.Hover(doc, range);
+  }
+
+  private readFile(fsPath: string): string | undefined {
+    try {
+      return fs.readFileSync(fsPath, 'utf-8');
+    } catch (error) {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import * as vscode from 'vscode';
+import { RequireResolver } from './requireResolver';
+
+/**
+ * Go to Definition and clickable links for require arguments
+ */
+export class RequireNavigationProvider implements vscode.DefinitionProvider, vscode.DocumentLinkProvider {
+  constructor(private resolver: RequireResolver) {}
+
+  public provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.LocationLink[] | undefined {
+    const require = this.resolver.findAt(document, position);
+    if (!require?.sourcePath) return undefined;
+
+    const targetUri = vscode.Uri.file(require.sourcePath);
+    const targetRange = new vscode.Range(0, 0, 0, 0);
+    return [{
+      originSelectionRange: require.call.argumentRange,
+      targetUri,
+      targetRange,
+      targetSelectionRange: targetRange,
+    }];
+  }
+
+  public provideDocumentLinks(document: vscode.TextDocument): vscode.DocumentLink[] {
+    const links: vscode.DocumentLink[] = [];
+
+    for (const require of this.resolver.resolveDocument(document)) {
+      if (!require.sourcePath) continue;
+
+      const link = new vscode.DocumentLink(require.call.argumentRange, vscode.Uri.file(require.sourcePath));
+      link.tooltip = `Open ${require.module?.name ?? 'module'} (${require.instancePath})`;
+      links.push(link);
+    }
+
+    return links;
+  }
+}
@@ -0,0 +1,229 @@
+import * as vscode from 'vscode';
+import { ModuleIndexer } from './moduleIndexer';
+import { PathResolver } from './pathResolver';
+import { ExtensionConfig, RequireGroup } from './types';
+import { stripComments } from './luaSource';
+import { extractDefinedServices, extractDefinedVariables, resolveRequireExpression } from './requireParser';
+import { buildRequirePath, getRelativePath } from './requirePathBuilder';
+import { compareServiceNames, findRequireBlock, getServiceName, RequireBlockEntry } from './requireBlock';
+import { getModuleTag } from './moduleTags';
+import { getInstanceRealm } from './realm';
+
+/**
+ * A block declaration together with the comment lines directly above it
+ */
+interface OrganizedEntry {
+  entry: RequireBlockEntry;
+  comments: string[];
+  group: RequireGroup;
+  /** Resolved target of a require */
+  instancePath: string | null;
+  /** Line text after path normalization */
+  text: string;
+}
+
+/**
+ * Sorts, deduplicates and normalizes the require block at the top of a file
+ */
+export class RequireOrganizer {
+  constructor(
+    private moduleIndexer: ModuleIndexer,
+    private pathResolver: PathResolver,
+    private config: ExtensionConfig
+  ) {}
+
+  /**
+   * Compute the edits organizing a document's require block
+   * @returns The edits, empty if the block is already organized or there is none
+   */
+  public computeEdits(document: vscode.TextDocument): vscode.TextEdit[] {
+    const text = document.getText();
+    const lines = text.split(/\r?\n/);
+    const block = findRequireBlock(lines);
+    if (!block) return [];
+
+    const currentScriptPath = this.pathResolver.resolveInstancePath(document.uri.fsPath);
+    const definedVariables = extractDefinedVariables(text, currentScriptPath);
+
+    // Attach standalone comment lines to the declaration below them
+    const entries: OrganizedEntry[] = [];
+    let previousLine = block.startLine - 1;
+    for (const entry of block.entries) {
+      const comments = lines.slice(previousLine + 1, entry.line).filter(l => l.trim().startsWith('--'));
+      previousLine = entry.line;
+
+      const instancePath = entry.kind === 'require'
+        ? resolveRequireExpression(entry.expression, definedVariables, currentScriptPath)
+        : null;
+
+      entries.push({
+        entry,
+        comments,
+        group: this.classify(entry, instancePath, currentScriptPath),
+        instancePath,
+        text: entry.text.trim(),
+      });
+    }
+
+    const kept = this.removeUnused(this.removeDuplicates(entries), lines, block.startLine, block.endLine);
+
+    // Normalize require paths to the configured style, using only locals the block keeps: anything
+    // declared after it may be out of scope. Rendering places each require after the locals it uses.
+    const keptLines = new Set(kept.map(e => e.entry.line));
+    const blockServices = extractDefinedServices(kept.filter(e => e.entry.kind === 'service').map(e => e.entry.text).join('\n'));
+    const blockVariables = definedVariables.filter(v => keptLines.has(v.lineIndex));
+    for (const organized of kept) {
+      if (organized.entry.kind !== 'require' || !organized.instancePath) continue;
+      if (!this.moduleIndexer.findByInstancePath(organized.instancePath)) continue;
+
+      const requirePath = buildRequirePath(organized.instancePath, blockServices, blockVariables, currentScriptPath, this.config);
+      organized.text = organized.text.replace(/require\s*\(.*?\)(?=\s*;?\s*(?:--.*)?$)/, `require(${requirePath})`);
+    }
+
+    const newText = this.render(kept, document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n');
+    const range = new vscode.Range(block.startLine, 0, block.endLine, lines[block.endLine].length);
+    if (document.getText(range) === newText) return [];
+
+    return [vscode.TextEdit.replace(range, newText)];
+  }
+
+  /**
+   * Check whether a document being saved should be organized
+   */
+  public shouldOrganizeOnSave(document: vscode.TextDocument): boolean {
+    return this.config.enabled && this.config.organizeRequiresOnSave && /\.luau?$/i.test(document.uri.fsPath);
+  }
+
+  /**
+   * Decide which group a declaration belongs to
+   */
+  private classify(entry: RequireBlockEntry, instancePath: string | null, currentScriptPath: string): RequireGroup {
+    if (entry.kind !== 'require') return 'services';
+    if (!instancePath) return 'local';
+
+    const moduleInfo = this.moduleIndexer.findByInstancePath(instancePath);
+    if (moduleInfo && getModuleTag(moduleInfo) === 'Wally') return 'packages';
+
+    // Modules close enough for a script.Parent path belong with the file's own code
+    if (getRelativePath(currentScriptPath, instancePath, { ...this.config, pathStyle: 'relative' })) return 'local';
+
+    return getInstanceRealm(instancePath) === 'shared' ? 'shared' : 'local';
+  }
+
+  /**
+   * Drop declarations repeating an earlier one (same local and same target)
+   */
+  private removeDuplicates(entries: OrganizedEntry[]): OrganizedEntry[] {
+    const seen = new Set<string>();
+    return entries.filter(organized => {
+      const target = organized.instancePath ?? organized.entry.expression.replace(/\s+/g, '');
+      const key = `${organized.entry.varName}\0${target}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Drop requires whose local is never referenced outside its own declaration
+   */
+  private removeUnused(entries: OrganizedEntry[], lines: string[], startLine: number, endLine: number): OrganizedEntry[] {
+    const blockEntryLines = new Set(entries.map(e => e.entry.line));
+    // Other declarations in the block count as uses (e.g. a require used as a path base)
+    const remainingCode = stripComments([
+      ...lines.slice(startLine, endLine + 1).map((l, i) => blockEntryLines.has(startLine + i) ? l : ''),
+      ...lines.slice(endLine + 1),
+    ].join('\n'));
+
+    return entries.filter(organized => {
+      if (organized.entry.kind !== 'require') return true;
+
+      const usePattern = new RegExp(`(?<![.:\\w])${organized.entry.varName}\\b`, 'g');
+      const uses = remainingCode.match(usePattern)?.length ?? 0;
+      // The declaration itself accounts for one match
+      return uses > 1;
+    });
+  }
+
+  /**
+   * Render the organized block: one group per paragraph, in the configured group order
+   */
+  private render(entries: OrganizedEntry[], eol: string): string {
+    const groupOrder = this.config.organizeRequiresGroups;
+    const paragraphs: OrganizedEntry[][] = [];
+
+    for (const group of groupOrder) {
+      const members = entries.filter(e => e.group === group);
+      if (members.length === 0) continue;
+
+      if (group === 'services') {
+        // Services in the configured order, then aliases in their original order
+        const services = members.filter(e => e.entry.kind === 'service')
+          .sort((a, b) => compareServiceNames(getServiceName(a.entry), getServiceName(b.entry), this.config.serviceOrder));
+        const aliases = members.filter(e => e.entry.kind === 'alias');
+        paragraphs.push([...services, ...aliases]);
+      } else {
+        members.sort((a, b) => a.entry.varName.toLowerCase().localeCompare(b.entry.varName.toLowerCase()));
+        paragraphs.push(members);
+      }
+    }
+
+    // Groups left out of the configured order keep their declarations at the end
+    const leftovers = entries.filter(e => !groupOrder.includes(e.group));
+    if (leftovers.length > 0) {
+      paragraphs.push(leftovers);
+    }
+
+    return this.orderDependencies(paragraphs)
+      .map(paragraph => paragraph.map(e => this.renderEntry(e, eol)).join(eol))
+      .join(eol + eol);
+  }
+
+  /**
+   * Move each declaration that references a local declared below it (e.g. `local Remotes = Net.Remotes`
+   * under a `Net` require) right after the last local it references, in that local's paragraph
+   */
+  private orderDependencies(paragraphs: OrganizedEntry[][]): OrganizedEntry[][] {
+    const placed = paragraphs.flatMap((paragraph, index) => paragraph.map(organized => ({ organized, paragraph: index })));
+    const positionOf = new Map<string, number>();
+    const references = new Map(placed.map(({ organized }) => [organized, this.getReferencedNames(organized)]));
+
+    // Each move only sends a declaration further down, so this settles unless the block is circular
+    for (let pass = 0; pass < placed.length * placed.length; pass++) {
+      placed.forEach(({ organized }, index) => positionOf.set(organized.entry.varName, index));
+
+      const index = placed.findIndex(({ organized }) =>
+        [...references.get(organized)!].some(name => (positionOf.get(name) ?? -1) > positionOf.get(organized.entry.varName)!));
+      if (index === -1) break;
+
+      const [moved] = placed.splice(index, 1);
+      const lastReference = Math.max(...[...references.get(moved.organized)!].map(name => positionOf.get(name) ?? -1)) - 1;
+      placed.splice(lastReference + 1, 0, { organized: moved.organized, paragraph: placed[lastReference].paragraph });
+    }
+
+    return paragraphs
+      .map((_, index) => placed.filter(p => p.paragraph === index).map(p => p.organized))
+      .filter(paragraph => paragraph.length > 0);
+  }
+
+  /**
+   * Get the locals a declaration's value refers to
+   */
+  private getReferencedNames(organized: OrganizedEntry): Set<string> {
+    const value = organized.text.slice(organized.text.indexOf('=') + 1)
+      .replace(/(["'])(?:\\.|(?!\1).)*\1/g, '""')
+      .replace(/--.*$/, '');
+    const names = new Set(value.match(/(?<![.:\w])[a-zA-Z_]\w*/g) ?? []);
+    names.delete(organized.entry.varName);
+    return names;
+  }
+
+  private renderEntry(organized: OrganizedEntry, eol: string): string {
+    const indent = /^\s*/.exec(organized.entry.text)![0];
+    return [...organized.comments.map(c => indent + c.trim()), indent + organized.text].join(eol);
+  }
+
+  public updateConfig(config: ExtensionConfig): void {
+    this.config = config;
+  }
+}
@@ -0,0 +1,235 @@
+import * as vscode from 'vscode';
+import { DefinedVariable } from './types';
+import { stripComments, findClosingBracket, findFunctionBodies } from './luaSource';
+import { joinInstancePath, splitInstancePath } from './instancePath';
+
+/**
+ * A `require(...)` call found in source text
+ */
+export interface RequireCall {
+  /** The argument expression with whitespace removed, e.g. `script.Parent.Util` */
+  expression: string;
+  /** Local the result is assigned to, for `local X = require(...)` */
+  varName?: string;
+  /** Zero-based line of the `require` keyword */
+  line: number;
+  /** Range of the argument expression */
+  argumentRange: vscode.Range;
+  /** Range of the whole `require(...)` call */
+  callRange: vscode.Range;
+  /** Whether the call is inside a function body, so it only runs when the function is called */
+  insideFunction: boolean;
+}
+
+/**
+ * A parsed instance access chain, e.g. `Shared:WaitForChild("Util").Signal`
+ */
+interface InstanceChain {
+  base: string;
+  segments: string[];
+}
+
+/**
+ * Build a function mapping source offsets to positions
+ */
+function createPositionMapper(source: string): (offset: number) => vscode.Position {
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  return (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return new vscode.Position(low, offset - lineStarts[low]);
+  };
+}
+
+/**
+ * Remove whitespace outside of string literals
+ */
+function compactExpression(expression: string): string {
+  return expression.replace(/("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')|\s+/g, (_, quoted) => quoted ?? '');
+}
+
+/**
+ * Parse an instance access chain. The whole expression must be consumed.
+ * Supports `.Name`, `["Name"]`, and `:WaitForChild("Name")`, `:FindFirstChild("Name")`, `:GetService("Name")` calls.
+ */
+function parseInstanceChain(expression: string): InstanceChain | null {
+  const text = expression.trim().replace(/;$/, '');
+  const baseMatch = /^[a-zA-Z_]\w*/.exec(text);
+  if (!baseMatch) return null;
+
+  const chain: InstanceChain = { base: baseMatch[0], segments: [] };
+  const accessPattern = /\s*(?:\.\s*([a-zA-Z_]\w*)|\[\s*(?:"([^"]*)"|'([^']*)')\s*\]|:\s*(?:WaitForChild|FindFirstChild|GetService)\s*\(\s*(?:"([^"]*)"|'([^']*)')\s*(?:,[^)]*)?\))/y;
+  accessPattern.lastIndex = baseMatch[0].length;
+
+  while (accessPattern.lastIndex < text.length) {
+    const match = accessPattern.exec(text);
+    if (!match) return null;
+    chain.segments.push(match[1] ?? match[2] ?? match[3] ?? match[4] ?? match[5]);
+  }
+
+  return chain;
+}
+
+/**
+ * Resolve a chain against the variables in scope
+ * @returns Instance path segments, or null if the base is unknown
+ */
+function resolveChain(
+  chain: InstanceChain,
+  variables: Map<string, string>,
+  currentScriptPath: string | null
+): string[] | null {
+  let segments: string[];
+
+  if (chain.base === 'game') {
+    segments = ['game'];
+  } else if (chain.base === 'script') {
+    if (!currentScriptPath) return null;
+    segments = splitInstancePath(currentScriptPath);
+  } else {
+    const instancePath = variables.get(chain.base);
+    if (!instancePath) return null;
+    segments = splitInstancePath(instancePath);
+  }
+
+  for (const segment of chain.segments) {
+    if (segment === 'Parent') {
+      if (segments.length <= 1) return null;
+      segments = segments.slice(0, -1);
+    } else {
+      segments = [...segments, segment];
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Extract defined service variables (`local X = game:GetService("S")` or `local X = game.S`)
+ * @returns Map of service name to variable name
+ */
+export function extractDefinedServices(text: string): Map<string, string> {
+  const services = new Map<string, string>();
+
+  // Match: local X = game:GetService("Service") or local X = game.Service
+  const getServicePattern = /local\s+(\w+)\s*=\s*game:GetService\s*\(\s*["'](\w+)["']\s*\)/g;
+  const dotAccessPattern = /local\s+(\w+)\s*=\s*game\.(\w+)\s*(?:$|[\r\n;])/gm;
+
+  let match;
+  while ((match = getServicePattern.exec(text)) !== null) {
+    services.set(match[2], match[1]);
+  }
+  while ((match = dotAccessPattern.exec(text)) !== null) {
+    if (/^[A-Z]/.test(match[2])) {
+      services.set(match[2], match[1]);
+    }
+  }
+  return services;
+}
+
+/**
+ * Extract all defined instance variables, deepest first.
+ * Variables may be based on services, earlier variables, or `script` when the script's path is known.
+ */
+export function extractDefinedVariables(text: string, currentScriptPath: string | null = null): DefinedVariable[] {
+  const variables: DefinedVariable[] = [];
+  const known = new Map<string, string>();
+  const lines = stripComments(text).split('\n');
+
+  lines.forEach((line, lineIndex) => {
+    const match = /^\s*local\s+([a-zA-Z_]\w*)\s*(?::[^=]+)?=\s*(.+?)\s*;?\s*$/.exec(line);
+    if (!match) return;
+
+    const [, varName, valueText] = match;
+    const chain = parseInstanceChain(valueText);
+    if (!chain) return;
+
+    // A bare `game` isn't useful, and service names are capitalized
+    if (chain.base === 'game' && (chain.segments.length === 0 || !/^[A-Z]/.test(chain.segments[0]))) return;
+    if (chain.base === 'script' && chain.segments.length === 0) return;
+
+    const segments = resolveChain(chain, known, currentScriptPath);
+    if (!segments || segments.length < 2) return;
+
+    const instancePath = joinInstancePath(segments);
+    known.set(varName, instancePath);
+    variables.push({ varName, instancePath, depth: instancePath.split(/\.|\[/).length, lineIndex });
+  });
+
+  variables.sort((a, b) => b.depth - a.depth);
+  return variables;
+}
+
+/**
+ * Find every `require(...)` call in the source
+ */
+export function findRequireCalls(source: string): RequireCall[] {
+  const code = stripComments(source);
+  const toPosition = createPositionMapper(code);
+  const functionBodies = findFunctionBodies(code);
+  const calls: RequireCall[] = [];
+  const requirePattern = /(?:(?:^|[\r\n;])[ \t]*local\s+([a-zA-Z_]\w*)\s*(?::[^=\n]+)?=\s*)?\brequire\s*(\()/g;
+
+  let match;
+  while ((match = requirePattern.exec(code)) !== null) {
+    const openIndex = match.index + match[0].length - 1;
+    const closeIndex = findClosingBracket(code, openIndex);
+    if (closeIndex === -1) continue;
+
+    // Skip member accesses like `Foo.require(` or `obj:require(`
+    const requireIndex = code.lastIndexOf('require', openIndex);
+    if (requireIndex > 0 && /[.:\w]/.test(code[requireIndex - 1])) continue;
+
+    const rawArgument = code.substring(openIndex + 1, closeIndex);
+    const leading = rawArgument.length - rawArgument.trimStart().length;
+    const argumentStart = openIndex + 1 + leading;
+    const argumentEnd = argumentStart + rawArgument.trim().length;
+
+    calls.push({
+      expression: compactExpression(rawArgument),
+      varName: match[1],
+      line: toPosition(requireIndex).line,
+      argumentRange: new vscode.Range(toPosition(argumentStart), toPosition(argumentEnd)),
+      callRange: new vscode.Range(toPosition(requireIndex), toPosition(closeIndex + 1)),
+      insideFunction: functionBodies.some(body => requireIndex > body.start && requireIndex < body.end),
+    });
+  }
+
+  return calls;
+}
+
+/**
+ * Resolve a require argument to the instance path it refers to
+ * @param expression The require argument, e.g. `Packages.Janitor` or `script.Parent.Util`
+ * @param definedVariables Variables in the file, from extractDefinedVariables
+ * @param currentScriptPath Instance path of the requiring script (for `script` based paths)
+ * @returns The instance path, or null if it can't be determined statically
+ */
+export function resolveRequireExpression(
+  expression: string,
+  definedVariables: DefinedVariable[],
+  currentScriptPath: string | null
+): string | null {
+  const chain = parseInstanceChain(expression);
+  if (!chain) return null;
+
+  const variables = new Map<string, string>();
+  for (const variable of definedVariables) {
+    if (!variables.has(variable.varName)) {
+      variables.set(variable.varName, variable.instancePath);
+    }
+  }
+
+  const segments = resolveChain(chain, variables, currentScriptPath);
+  if (!segments || segments.length < 2) return null;
+  return joinInstancePath(segments);
+}
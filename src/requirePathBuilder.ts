@@ -0,0 +1,142 @@
+import { DefinedVariable, ExtensionConfig } from './types';
+
+/**
+ * Settings that affect how require paths are written
+ */
+export type PathBuildConfig = Pick<ExtensionConfig, 'pathStyle' | 'useGetService'>;
+
+/**
+ * Try to generate a relative path (script.Parent based)
+ */
+export function getRelativePath(currentPath: string, targetPath: string, config: PathBuildConfig): string | null {
+  if (config.pathStyle === 'absolute') return null;
+
+  const currentParts = currentPath.split('.');
+  const targetParts = targetPath.split('.');
+
+  if (currentParts[0] !== 'game' || targetParts[0] !== 'game') return null;
+
+  let commonLength = 0;
+  for (let i = 0; i < Math.min(currentParts.length, targetParts.length); i++) {
+    if (currentParts[i] === targetParts[i]) commonLength = i + 1;
+    else break;
+  }
+
+  if (commonLength < 2) return null;
+
+  const parentsNeeded = currentParts.length - commonLength;
+  const childrenNeeded = targetParts.slice(commonLength);
+
+  if (parentsNeeded > 3) return null; // Max 3 parents
+
+  let relativePath = 'script';
+  for (let i = 0; i < parentsNeeded; i++) relativePath += '.Parent';
+  for (const child of childrenNeeded) {
+    relativePath += /^[a-zA-Z_]\w*$/.test(child) ? `.${child}` : `["${child}"]`;
+  }
+
+  return relativePath;
+}
+
+/**
+ * Find deepest matching variable for path
+ */
+export function findDeepestMatchingVariable(instancePath: string, definedVariables: DefinedVariable[]): { varName: string; remainingPath: string } | null {
+  const normalizedTarget = instancePath.toLowerCase();
+
+  for (const variable of definedVariables) {
+    const normalizedVarPath = variable.instancePath.toLowerCase();
+    if (normalizedTarget.startsWith(normalizedVarPath)) {
+      const remaining = instancePath.substring(variable.instancePath.length);
+      if (remaining === '' || remaining.startsWith('.') || remaining.startsWith('[')) {
+        return { varName: variable.varName, remainingPath: remaining };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the best require path for an instance path from the current file
+ */
+export function buildRequirePath(
+  instancePath: string,
+  definedServices: Map<string, string>,
+  definedVariables: DefinedVariable[],
+  currentScriptPath: string | null,
+  config: PathBuildConfig
+): string {
+  // Try deepest matching variable first
+  const deepMatch = findDeepestMatchingVariable(instancePath, definedVariables);
+  if (deepMatch) {
+    return deepMatch.varName + deepMatch.remainingPath;
+  }
+
+  // Try relative path
+  if (currentScriptPath && config.pathStyle !== 'absolute') {
+    const relativePath = getRelativePath(currentScriptPath, instancePath, config);
+    if (relativePath) return relativePath;
+  }
+
+  // Try service variable
+  const match = instancePath.match(/^game\.(\w+)(\..*)?$/);
+  if (match) {
+    const varName = definedServices.get(match[1]);
+    if (varName) return varName + (match[2] || '');
+  }
+
+  // Use GetService if configured
+  if (config.useGetService && match) {
+    return `game:GetService("${match[1]}")${match[2] || ''}`;
+  }
+
+  return instancePath;
+}
+
+/**
+ * How an existing require argument is written
+ */
+export type RequireStyle = 'variable' | 'relative' | 'absolute' | 'getService';
+
+/**
+ * Classify how a require argument is written
+ */
+export function detectRequireStyle(expression: string): RequireStyle {
+  if (/^script\b/.test(expression)) return 'relative';
+  if (/^game\s*:\s*GetService\b/.test(expression)) return 'getService';
+  if (/^game\b/.test(expression)) return 'absolute';
+  return 'variable';
+}
+
+/**
+ * Build a require path written in a given style, falling back to buildRequirePath when the style can't express it
+ */
+export function buildRequirePathInStyle(
+  style: RequireStyle,
+  instancePath: string,
+  definedServices: Map<string, string>,
+  definedVariables: DefinedVariable[],
+  currentScriptPath: string | null,
+  config: PathBuildConfig
+): string {
+  if (style === 'absolute') {
+    return instancePath;
+  }
+
+  if (style === 'variable') {
+    const deepMatch = findDeepestMatchingVariable(instancePath, definedVariables);
+    if (deepMatch) return deepMatch.varName + deepMatch.remainingPath;
+  }
+
+  if (style === 'relative' && currentScriptPath) {
+    const relativePath = getRelativePath(currentScriptPath, instancePath, { ...config, pathStyle: 'relative' });
+    if (relativePath) return relativePath;
+  }
+
+  if (style === 'getService') {
+    const match = instancePath.match(/^game\.(\w+)(\..*)?$/);
+    if (match) return `game:GetService("${match[1]}")${match[2] || ''}`;
+  }
+
+  return buildRequirePath(instancePath, definedServices, definedVariables, currentScriptPath, config);
+}
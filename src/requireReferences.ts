@@ -0,0 +1,55 @@
+import * as vscode from 'vscode';
+import { DependencyGraph } from './dependencyGraph';
+import { RequireResolver } from './requireResolver';
+import { ModuleIndexer } from './moduleIndexer';
+
+/**
+ * Finds every require of a module across the workspace, using the dependency graph
+ */
+export class RequireReferenceProvider implements vscode.ReferenceProvider {
+  constructor(
+    private graph: DependencyGraph,
+    private resolver: RequireResolver,
+    private moduleIndexer: ModuleIndexer
+  ) {}
+
+  public provideReferences(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.Location[] | undefined {
+    const modulePath = this.getModuleAt(document, position);
+    return modulePath ? this.getDependentLocations(modulePath) : undefined;
+  }
+
+  /**
+   * Get the module a position refers to: the target of a require call, or the current
+   * module when on its name or returned table (so local symbols are left to other providers)
+   */
+  public getModuleAt(document: vscode.TextDocument, position: vscode.Position): string | undefined {
+    const require = this.resolver.findAt(document, position);
+    if (require) {
+      return require.module?.fsPath;
+    }
+
+    const module = this.moduleIndexer.findByFsPath(document.uri.fsPath);
+    if (!module) return undefined;
+
+    const wordRange = document.getWordRangeAtPosition(position, /[a-zA-Z_]\w*/);
+    if (!wordRange) return undefined;
+
+    const word = document.getText(wordRange);
+    if (word === module.name || word === module.exports?.returnName) {
+      return module.fsPath;
+    }
+    return undefined;
+  }
+
+  /**
+   * Get the location of every require call targeting a module file
+   */
+  public getDependentLocations(fsPath: string): vscode.Location[] {
+    return this.graph.getDependents(fsPath).map(require =>
+      new vscode.Location(vscode.Uri.file(require.fromPath), require.call.callRange)
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ModuleIndexer } from './moduleIndexer';
+import { PathResolver } from './pathResolver';
+import { ModuleInfo } from './types';
+import { findRequireCalls, extractDefinedVariables, resolveRequireExpression, RequireCall } from './requireParser';
+import { splitInstancePath } from './instancePath';
+
+/**
+ * A require call in an open document, resolved to its module
+ */
+export interface DocumentRequire {
+  call: RequireCall;
+  /** Instance path the argument refers to, or null if it can't be determined statically */
+  instancePath: string | null;
+  /** The required module, if indexed */
+  module?: ModuleInfo;
+  /** File containing the module's code (Wally link files are followed to the package source) */
+  sourcePath: string | null;
+}
+
+/**
+ * Resolves the require calls of open documents, cached per document version
+ */
+export class RequireResolver {
+  private cache: Map<string, { version: number; requires: DocumentRequire[] }> = new Map();
+
+  constructor(
+    private moduleIndexer: ModuleIndexer,
+    private pathResolver: PathResolver
+  ) {}
+
+  /**
+   * Resolve every require call in a document
+   */
+  public resolveDocument(document: vscode.TextDocument): DocumentRequire[] {
+    const key = document.uri.toString();
+    const cached = this.cache.get(key);
+    if (cached && cached.version === document.version) {
+      return cached.requires;
+    }
+
+    const text = document.getText();
+    const currentScriptPath = this.pathResolver.resolveInstancePath(document.uri.fsPath);
+    const definedVariables = extractDefinedVariables(text, currentScriptPath);
+
+    const requires = findRequireCalls(text).map(call => {
+      const instancePath = resolveRequireExpression(call.expression, definedVariables, currentScriptPath);
+      const module = instancePath ? this.moduleIndexer.findByInstancePath(instancePath) : undefined;
+      return {
+        call,
+        instancePath,
+        module,
+        sourcePath: module ? this.getSourcePath(module) : null,
+      };
+    });
+
+    this.cache.set(key, { version: document.version, requires });
+    return requires;
+  }
+
+  /**
+   * Find the require call at a position
+   */
+  public findAt(document: vscode.TextDocument, position: vscode.Position): DocumentRequire | undefined {
+    return this.resolveDocument(document).find(r => r.call.callRange.contains(position));
+  }
+
+  /**
+   * Get the file holding a module's code, following Wally link files to the real package source
+   */
+  public getSourcePath(module: ModuleInfo): string {
+    if (!module.isWallyPackage) {
+      return module.fsPath;
+    }
+    return this.resolveWallyLink(module.fsPath) ?? module.fsPath;
+  }
+
+  /**
+   * Follow a Wally link file (`return require(script.Parent._Index["scope_name@1.0.0"]["name"])`)
+   * @returns The package's entry file, or null if it can't be found
+   */
+  private resolveWallyLink(linkPath: string): string | null {
+    let source: string;
+    try {
+      source = fs.readFileSync(linkPath, 'utf-8');
+    } catch (error) {
+      return null;
+    }
+
+    const call = findRequireCalls(source).find(c => c.expression.includes('_Index'));
+    if (!call) return null;
+
+    // `script` is the link file, so `script.Parent` is the folder containing it
+    const segments = splitInstancePath(call.expression);
+    if (segments[0] !== 'script' || segments[1] !== 'Parent') return null;
+
+    let packageDir = path.dirname(linkPath);
+    for (const segment of segments.slice(2)) {
+      if (segment === 'Parent') {
+        packageDir = path.dirname(packageDir);
+      } else {
+        packageDir = path.join(packageDir, segment);
+      }
+    }
+
+    return this.findPackageEntry(packageDir);
+  }
+
+  /**
+   * Find the entry file of a Wally package folder, using its project file when present
+   */
+  private findPackageEntry(packageDir: string): string | null {
+    const candidates: string[] = [];
+
+    try {
+      const project = JSON.parse(fs.readFileSync(path.join(packageDir, 'default.project.json'), 'utf-8'));
+      if (typeof project?.tree?.$path === 'string') {
+        candidates.push(path.join(packageDir, project.tree.$path));
+      }
+    } catch (error) {
+      // No project file - fall back to common layouts
+    }
+    candidates.push(packageDir, path.join(packageDir, 'src'), path.join(packageDir, 'lib'));
+
+    for (const candidate of candidates) {
+      if (!fs.existsSync(candidate)) continue;
+      if (fs.statSync(candidate).isFile()) return candidate;
+
+      for (const initName of ['init.luau', 'init.lua']) {
+        const initPath = path.join(candidate, initName);
+        if (fs.existsSync(initPath)) return initPath;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Forget a closed document
+   */
+  public forget(document: vscode.TextDocument): void {
+    this.cache.delete(document.uri.toString());
+  }
+
+  /**
+   * Drop all cached resolutions (call when the module index changes)
+   */
+  public clear(): void {
+    this.cache.clear();
+  }
+}
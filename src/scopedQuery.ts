@@ -0,0 +1,101 @@
+import { ModuleInfo, Realm } from './types';
+import { splitInstancePath } from './instancePath';
+import { getInstanceRealm } from './realm';
+import { getModuleTag } from './moduleTags';
+
+const REALMS: Realm[] = ['server', 'client', 'shared'];
+
+/**
+ * A completion query split into the text searched for and the filters narrowing which modules are searched
+ */
+export interface ScopedQuery {
+  /** Text matched against module names and paths */
+  text: string;
+  /** Only search Wally packages (`@wally`) */
+  wallyOnly: boolean;
+  /** Only search modules whose tag starts with this, lowercased (`#controller`) */
+  tag?: string;
+  /** Only search modules in this realm (`server/`) */
+  realm?: Realm;
+  /** Leading instance path segments after `game`, each matched as a case-insensitive prefix (`ReplicatedStorage/`) */
+  pathPrefix: string[];
+  /** Ancestor segments that must appear in this order, each matched as a case-insensitive prefix (`Shared.Util.`) */
+  pathSegments: string[];
+}
+
+/**
+ * Parse the filters out of a completion query:
+ * - `@wally Promise` searches only Wally packages
+ * - `#controller` searches only modules with that tag
+ * - `server/Data` searches one realm; `ReplicatedStorage/Shared/Data` searches under an instance path
+ * - `Shared.Util.Str` searches modules whose ancestors include Shared and then Util
+ */
+export function parseScopedQuery(query: string): ScopedQuery {
+  const scoped: ScopedQuery = { text: '', wallyOnly: false, pathPrefix: [], pathSegments: [] };
+
+  const words: string[] = [];
+  for (const token of query.trim().split(/\s+/)) {
+    if (token.toLowerCase() === '@wally') scoped.wallyOnly = true;
+    else if (token.startsWith('#') && token.length > 1) scoped.tag = token.slice(1).toLowerCase();
+    else if (token !== '') words.push(token);
+  }
+  let text = words.join(' ');
+
+  if (text.includes('/')) {
+    const parts = text.split('/');
+    text = parts.pop()!;
+    const scope = parts.map(part => part.trim()).filter(part => part !== '');
+
+    const realm = REALMS.find(r => r === scope[0]?.toLowerCase());
+    if (realm) {
+      // A realm spans several services, so the folders after it can be anywhere below them
+      scoped.realm = realm;
+      scoped.pathSegments.push(...scope.slice(1));
+    } else {
+      if (scope[0]?.toLowerCase() === 'game') scope.shift();
+      scoped.pathPrefix = scope;
+    }
+  }
+
+  if (text.includes('.')) {
+    const parts = text.split('.');
+    text = parts.pop()!;
+    scoped.pathSegments.push(...parts.map(part => part.trim()).filter(part => part !== ''));
+  }
+
+  scoped.text = text.trim();
+  return scoped;
+}
+
+/**
+ * Check whether a query has any filters
+ */
+export function hasScope(scoped: ScopedQuery): boolean {
+  return scoped.wallyOnly || scoped.tag !== undefined || scoped.realm !== undefined ||
+    scoped.pathPrefix.length > 0 || scoped.pathSegments.length > 0;
+}
+
+/**
+ * Check whether a module passes a query's filters
+ */
+export function matchesScope(module: ModuleInfo, scoped: ScopedQuery): boolean {
+  if (scoped.wallyOnly && !module.isWallyPackage) return false;
+  if (scoped.tag !== undefined && !getModuleTag(module).toLowerCase().startsWith(scoped.tag)) return false;
+  if (scoped.realm && getInstanceRealm(module.instancePath) !== scoped.realm) return false;
+
+  const isPrefix = (segment: string, part: string) => segment.toLowerCase().startsWith(part.toLowerCase());
+  // Ancestors of the module, without `game`
+  const ancestors = splitInstancePath(module.instancePath).slice(1, -1);
+
+  if (scoped.pathPrefix.length > ancestors.length) return false;
+  if (!scoped.pathPrefix.every((part, i) => isPrefix(ancestors[i], part))) return false;
+
+  let next = 0;
+  for (const part of scoped.pathSegments) {
+    while (next < ancestors.length && !isPrefix(ancestors[next], part)) next++;
+    if (next === ancestors.length) return false;
+    next++;
+  }
+
+  return true;
+}
@@ -0,0 +1,19 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { parseModuleExports } from '../exportParser';
+
+describe('parseModuleExports', () => {
+  it('reads the fields of a returned table containing an if-expression', () => {
+    const source = [
+      'local DEBUG = false',
+      'return {',
+      '  level = if DEBUG then "debug" else "info",',
+      '  log = function(message: string) print(message) end,',
+      '  count = 0,',
+      '}',
+    ].join('\n');
+    assert.deepStrictEqual(parseModuleExports(source).members.map(m => [m.name, m.kind]), [
+      ['level', 'field'], ['log', 'function'], ['count', 'field'],
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import { FuzzyMatchOptions } from '../../fuzzyMatcher';
+
+/**
+ * Random module-like names and matcher options for comparing search implementations
+ */
+
+const WORDS = [
+  'Player', 'Data', 'Service', 'Controller', 'Remote', 'Event', 'Util', 'Signal', 'Janitor', 'HTTP',
+  'ab', 'ba', 'x', 'Q', '_', '9', 'qw', 'sd', 'é', 'ü', '😀', 'init', 'Packages/', 'src/',
+];
+
+/** Option combinations to match with, from the defaults to custom weights */
+export const OPTION_SETS: Partial<FuzzyMatchOptions>[] = [
+  {},
+  { minScore: 0 },
+  { minScore: 0.2, allowVeryFuzzy: true },
+  { minScore: 0.35, allowVeryFuzzy: false },
+  { minScore: 0.5, allowVeryFuzzy: false },
+  { minScore: 0.8 },
+  { minScore: 0.4, levenshteinWeight: 0.7, subsequenceWeight: 0.1, frequencyWeight: 0, prefixBonus: 0 },
+  { minScore: 0.3, levenshteinWeight: 0, subsequenceWeight: 0.2, frequencyWeight: 0.6, prefixBonus: 0.3 },
+];
+
+/**
+ * Generate module-like names with typos (dropped, swapped and adjacent-key characters) from a fixed seed
+ */
+export function createGenerator(seed: number): () => string {
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+  const pick = <T>(list: T[]) => list[Math.floor(random() * list.length)];
+
+  return () => {
+    let text = '';
+    const wordCount = Math.floor(random() * 4);
+    for (let w = 0; w < wordCount; w++) {
+      let word = pick(WORDS);
+      const roll = random();
+      if (roll < 0.15 && word.length > 1) {
+        const i = Math.floor(random() * word.length);
+        word = word.slice(0, i) + word.slice(i + 1);
+      } else if (roll < 0.3 && word.length > 2) {
+        const i = Math.floor(random() * (word.length - 1));
+        word = word.slice(0, i) + word[i + 1] + word[i] + word.slice(i + 2);
+      } else if (roll < 0.4) {
+        word = word.replace(/[aeiou]/, c => ({ a: 's', e: 'r', i: 'o', o: 'p', u: 'y' })[c]!);
+      }
+      if (random() < 0.3) word = word.toLowerCase();
+      text += word;
+    }
+    return text;
+  };
+}
@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { createBoundedMatcher, fuzzyMatch, getMinCommonChars, prepareText, rankMatches } from '../fuzzyMatcher';
+import * as reference from './fixtures/fuzzyMatcherReference';
+import { createGenerator, OPTION_SETS } from './fixtures/randomNames';
+
+describe('fuzzyMatch', () => {
+  it('returns the same results as the reference matcher', () => {
+    const generate = createGenerator(1);
+    for (let i = 0; i < 20000; i++) {
+      const query = generate();
+      const target = generate();
+      const options = OPTION_SETS[i % OPTION_SETS.length];
+      assert.deepStrictEqual(
+        fuzzyMatch(query, target, options),
+        reference.fuzzyMatch(query, target, options),
+        `${JSON.stringify(query)} against ${JSON.stringify(target)} with ${JSON.stringify(options)}`
+      );
+    }
+  });
+
+  it('ranks matches like the reference matcher', () => {
+    const generate = createGenerator(2);
+    const targets = Array.from({ length: 300 }, generate);
+    for (let i = 0; i < 40; i++) {
+      const query = generate();
+      const options = OPTION_SETS[i % OPTION_SETS.length];
+      assert.deepStrictEqual(
+        rankMatches(query, targets, t => t, options),
+        reference.rankMatches(query, targets, t => t, options),
+        JSON.stringify(query)
+      );
+    }
+  });
+});
+
+describe('createBoundedMatcher', () => {
+  it('matches fuzzyMatch for every target reaching the minimum score and rejects the rest', () => {
+    const generate = createGenerator(3);
+    for (let i = 0; i < 20000; i++) {
+      const query = generate();
+      const target = generate();
+      const options = OPTION_SETS[i % OPTION_SETS.length];
+      const minScore = options.minScore ?? 0.3;
+      const full = fuzzyMatch(query, target, options);
+      const bounded = createBoundedMatcher(query, options)(prepareText(target));
+      const message = `${JSON.stringify(query)} against ${JSON.stringify(target)} with ${JSON.stringify(options)}`;
+
+      if (full.matchType !== 'none' && full.score >= minScore) {
+        assert.deepStrictEqual(bounded, full, message);
+      } else {
+        assert.ok(bounded.matchType === 'none' || bounded.score < minScore, message);
+      }
+    }
+  });
+});
+
+describe('getMinCommonChars', () => {
+  it('never exceeds the characters shared by a matching target', () => {
+    const generate = createGenerator(4);
+    for (let i = 0; i < 20000; i++) {
+      const query = prepareText(generate());
+      const target = prepareText(generate());
+      const options = OPTION_SETS[i % OPTION_SETS.length];
+      const result = fuzzyMatch(query.text, target.text, options);
+      if (result.matchType === 'none' || result.score < (options.minScore ?? 0.3)) continue;
+
+      let common = 0;
+      for (const [char, count] of query.charCounts) {
+        common += Math.min(count, target.charCounts.get(char) ?? 0);
+      }
+      const maxTargetLength = target.lower.length + (i % 3);
+      assert.ok(
+        common >= getMinCommonChars(query, maxTargetLength, options),
+        `${JSON.stringify(query.text)} against ${JSON.stringify(target.text)} with ${JSON.stringify(options)}`
+      );
+    }
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { findFunctionBodies, splitTableFields } from '../luaSource';
+
+describe('splitTableFields', () => {
+  it('splits on top-level commas and semicolons', () => {
+    assert.deepStrictEqual(splitTableFields(' a = 1, b = { c, d }; ["e,f"] = g(h, i), '), [
+      'a = 1', 'b = { c, d }', '["e,f"] = g(h, i)',
+    ]);
+  });
+
+  it('keeps commas inside inline functions', () => {
+    assert.deepStrictEqual(splitTableFields('f = function(a, b) if a then return a, b end end, g = 2'), [
+      'f = function(a, b) if a then return a, b end end', 'g = 2',
+    ]);
+  });
+
+  it('ends if-expression fields at the next comma', () => {
+    assert.deepStrictEqual(splitTableFields('a = if x then 1 else 2, b = 3'), ['a = if x then 1 else 2', 'b = 3']);
+    assert.deepStrictEqual(splitTableFields('a = if x then f(1, 2) elseif y then 3 else if z then 4 else 5, b = 6'), [
+      'a = if x then f(1, 2) elseif y then 3 else if z then 4 else 5', 'b = 6',
+    ]);
+  });
+});
+
+/**
+ * Get the text of each function body found in code
+ */
+function bodies(code: string): string[] {
+  return findFunctionBodies(code).map(({ start, end }) => code.substring(start, end));
+}
+
+describe('findFunctionBodies', () => {
+  it('finds outermost function bodies', () => {
+    const code = [
+      'local A = 1',
+      'local function f() if a then return 1 end end',
+      'local t = { g = function() for i = 1, 2 do end end }',
+      'repeat x() until y',
+    ].join('\n');
+    assert.deepStrictEqual(bodies(code), [
+      'function f() if a then return 1 end end',
+      'function() for i = 1, 2 do end end',
+    ]);
+  });
+
+  it('includes nested functions in the outer body', () => {
+    assert.deepStrictEqual(bodies('function a() local b = function() end end x()'), [
+      'function a() local b = function() end end',
+    ]);
+  });
+
+  it('ignores keywords in strings', () => {
+    assert.deepStrictEqual(bodies('local s = "function" .. [[end]]\nfunction f() return "end" end'), [
+      'function f() return "end" end',
+    ]);
+  });
+
+  it('runs an unclosed body to the end of the code', () => {
+    assert.deepStrictEqual(bodies('local x = 1\nlocal function f()\n  if a then'), [
+      'function f()\n  if a then',
+    ]);
+  });
+
+  it('does not expect an end for if-expressions', () => {
+    const code = 'local function pick(a) return if a then 1 else 2 end\nlocal B = require(script.Parent.B)';
+    assert.deepStrictEqual(bodies(code), ['function pick(a) return if a then 1 else 2 end']);
+  });
+
+  it('handles nested if-expressions and if statements inside them', () => {
+    const code = [
+      'local function f(a, b)',
+      '  local x = if a then if b then 1 else 2 elseif b then 3 else if a then 4 else 5',
+      '  local y = if a then function() if b then end end else nil',
+      '  if x then y = x .. if b then "b" else "" end',
+      'end',
+      'g()',
+    ].join('\n');
+    assert.deepStrictEqual(bodies(code), [code.substring('local '.length, code.length - '\ng()'.length)]);
+  });
+
+  it('treats if after varargs as a statement', () => {
+    assert.deepStrictEqual(bodies('local args = ...\nif args then end\nfunction f() end'), ['function f() end']);
+  });
+});
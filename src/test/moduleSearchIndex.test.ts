@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { ModuleSearchIndex } from '../moduleSearchIndex';
+import { ModuleInfo } from '../types';
+import { fuzzyMatch, FuzzyMatchOptions } from './fixtures/fuzzyMatcherReference';
+import { createGenerator, OPTION_SETS } from './fixtures/randomNames';
+
+/**
+ * Match modules by name, or by relative path when the name doesn't match, with the reference matcher
+ */
+function scan(modules: ModuleInfo[], query: string, options: Partial<FuzzyMatchOptions>): string[] {
+  const matches = (text: string) => fuzzyMatch(query, text, options).isMatch;
+
+  const results: string[] = [];
+  for (const module of modules) {
+    if (matches(module.name)) results.push(`${module.fsPath} name`);
+    else if (matches(module.relativePath)) results.push(`${module.fsPath} path`);
+  }
+  return results;
+}
+
+function createModules(count: number, seed: number): ModuleInfo[] {
+  const generate = createGenerator(seed);
+  return Array.from({ length: count }, (_, i) => {
+    const name = generate() || 'Module';
+    return {
+      name,
+      fsPath: `/workspace/${i}.luau`,
+      instancePath: `game.ReplicatedStorage.${name}`,
+      relativePath: `src/${generate()}/${name}.luau`,
+      isWallyPackage: false,
+    };
+  });
+}
+
+describe('ModuleSearchIndex', () => {
+  it('returns the same modules, in order, as scanning the list with the reference matcher', () => {
+    const modules = createModules(1000, 5);
+    const index = new ModuleSearchIndex();
+    index.rebuild(modules);
+
+    const generate = createGenerator(6);
+    for (let i = 0; i < 120; i++) {
+      const query = generate();
+      const options = OPTION_SETS[i % OPTION_SETS.length];
+      const results = index.matchModules(query, options).map(m => `${m.module.fsPath} ${m.name ? 'name' : 'path'}`);
+      assert.deepStrictEqual(results, scan(modules, query, options), `${JSON.stringify(query)} with ${JSON.stringify(options)}`);
+    }
+  });
+
+  it('stays in sync as modules are added, replaced and removed', () => {
+    const modules = createModules(400, 7);
+    const index = new ModuleSearchIndex();
+    index.rebuild(modules.slice(0, 300));
+
+    // Replacing a module moves it to the end, as the indexer does with its list
+    const replaced = { ...modules[10], name: 'ReplacedService' };
+    index.add(replaced);
+    index.remove(modules[20].fsPath);
+    modules.slice(300).forEach(m => index.add(m));
+    const expected = [...modules.slice(0, 300).filter((_, i) => i !== 10 && i !== 20), replaced, ...modules.slice(300)];
+
+    const generate = createGenerator(8);
+    for (let i = 0; i < 80; i++) {
+      const query = i === 0 ? 'ReplacedService' : generate();
+      const options = OPTION_SETS[i % OPTION_SETS.length];
+      const results = index.matchModules(query, options).map(m => `${m.module.fsPath} ${m.name ? 'name' : 'path'}`);
+      assert.deepStrictEqual(results, scan(expected, query, options), `${JSON.stringify(query)} with ${JSON.stringify(options)}`);
+    }
+  });
+});
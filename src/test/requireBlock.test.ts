@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { getServiceInsertionPoint, getServiceName, parseRequireBlockLine } from '../requireBlock';
+
+describe('getServiceName', () => {
+  it('reads the service from GetService calls and game members', () => {
+    const names = [
+      'local RS = game:GetService("ReplicatedStorage")',
+      "local Players = game : GetService( 'Players' ) -- players",
+      'local Lighting = game.Lighting;',
+    ].map((line, i) => getServiceName(parseRequireBlockLine(line, i)!));
+    assert.deepStrictEqual(names, ['ReplicatedStorage', 'Players', 'Lighting']);
+  });
+});
+
+describe('getServiceInsertionPoint', () => {
+  it('orders by service name rather than variable name', () => {
+    const lines = [
+      'local Zed = game:GetService("Players")',
+      'local Alpha = game:GetService("ReplicatedStorage")',
+      '',
+      'local Util = require(Alpha.Util)',
+    ];
+    assert.deepStrictEqual(getServiceInsertionPoint(lines, 'Lighting', []), { line: 0, needsSeparator: false });
+    assert.deepStrictEqual(getServiceInsertionPoint(lines, 'PolicyService', []), { line: 1, needsSeparator: false });
+    assert.deepStrictEqual(getServiceInsertionPoint(lines, 'SoundService', []), { line: 2, needsSeparator: false });
+  });
+
+  it('follows the configured order', () => {
+    const lines = [
+      'local Alpha = game:GetService("ReplicatedStorage")',
+      'local Zed = game:GetService("Players")',
+    ];
+    const order = ['ReplicatedStorage', 'Lighting', 'Players'];
+    assert.deepStrictEqual(getServiceInsertionPoint(lines, 'Lighting', order), { line: 1, needsSeparator: false });
+    assert.deepStrictEqual(getServiceInsertionPoint(lines, 'Workspace', order), { line: 2, needsSeparator: false });
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import * as vscode from 'vscode';
+import { RequireOrganizer } from '../requireOrganizer';
+import { ModuleIndexer } from '../moduleIndexer';
+import { PathResolver } from '../pathResolver';
+import { DEFAULT_RANKING_WEIGHTS } from '../ranking';
+import { ExtensionConfig, ModuleInfo } from '../types';
+
+const SCRIPT_PATH = 'game.ServerScriptService.Server.Main';
+
+const CONFIG: ExtensionConfig = {
+  enabled: true,
+  maxSuggestions: 15,
+  fuzzyMatchStrength: 'normal',
+  pathStyle: 'auto',
+  excludePatterns: [],
+  useGetService: false,
+  debugMode: false,
+  detectCircularRequires: true,
+  detectBrokenRequires: true,
+  detectRealmViolations: true,
+  serverModulesInClient: 'deprioritize',
+  updateRequiresOnRename: 'prompt',
+  organizeRequiresGroups: ['services', 'packages', 'shared', 'local'],
+  organizeRequiresOnSave: false,
+  showRequireCodeLens: true,
+  requirePlacement: 'cursor',
+  declareMissingServices: true,
+  serviceOrder: [],
+  variableCase: 'auto',
+  variableStripSuffixes: [],
+  variableAliases: {},
+  rankByUsage: true,
+  rankByProximity: true,
+  rankingWeights: DEFAULT_RANKING_WEIGHTS,
+};
+
+const MODULES: ModuleInfo[] = [
+  'game.ReplicatedStorage.Packages.Promise',
+  'game.ReplicatedStorage.Packages.Signal',
+  'game.ReplicatedStorage.Shared.Util',
+  'game.ReplicatedStorage.Shared.Net',
+  'game.ServerScriptService.Server.Config',
+].map(instancePath => {
+  const name = instancePath.split('.').pop()!;
+  return {
+    name,
+    fsPath: `/workspace/${name}.luau`,
+    instancePath,
+    relativePath: `src/${name}.luau`,
+    isWallyPackage: instancePath.includes('.Packages.'),
+  };
+});
+
+function createOrganizer(config: Partial<ExtensionConfig> = {}): RequireOrganizer {
+  const moduleIndexer = {
+    findByInstancePath: (instancePath: string) => MODULES.find(m => m.instancePath === instancePath),
+  } as unknown as ModuleIndexer;
+  const pathResolver = { resolveInstancePath: () => SCRIPT_PATH } as unknown as PathResolver;
+  return new RequireOrganizer(moduleIndexer, pathResolver, { ...CONFIG, ...config });
+}
+
+/**
+ * Organize a file's require block and return the resulting source
+ */
+function organize(source: string, config: Partial<ExtensionConfig> = {}): string {
+  const lines = source.split('\n');
+  const document = {
+    uri: { fsPath: '/workspace/Main.server.luau' },
+    eol: vscode.EndOfLine.LF,
+    getText: (range?: vscode.Range) => {
+      if (!range) return source;
+      const selected = lines.slice(range.start.line, range.end.line + 1);
+      selected[selected.length - 1] = selected[selected.length - 1].slice(0, range.end.character);
+      selected[0] = selected[0].slice(range.start.character);
+      return selected.join('\n');
+    },
+  } as unknown as vscode.TextDocument;
+
+  const edits = createOrganizer(config).computeEdits(document);
+  if (edits.length === 0) return source;
+
+  const [edit] = edits;
+  return [
+    ...lines.slice(0, edit.range.start.line),
+    edit.newText,
+    ...lines.slice(edit.range.end.line + 1),
+  ].join('\n');
+}
+
+describe('RequireOrganizer', () => {
+  it('removes unused and duplicate requires', () => {
+    const source = [
+      'local ReplicatedStorage = game:GetService("ReplicatedStorage")',
+      'local Util = require(ReplicatedStorage.Shared.Util)',
+      'local Signal = require(ReplicatedStorage.Packages.Signal)',
+      'local Util = require(ReplicatedStorage.Shared.Util)',
+      '',
+      'Util.run()',
+    ].join('\n');
+
+    assert.strictEqual(organize(source), [
+      'local ReplicatedStorage = game:GetService("ReplicatedStorage")',
+      '',
+      'local Util = require(ReplicatedStorage.Shared.Util)',
+      '',
+      'Util.run()',
+    ].join('\n'));
+  });
+
+  it('keeps requires used only by other declarations in the block', () => {
+    const source = [
+      'local ReplicatedStorage = game:GetService("ReplicatedStorage")',
+      '',
+      'local Net = require(ReplicatedStorage.Shared.Net)',
+      'local Remotes = Net.Remotes',
+      '',
+      'Remotes.Fire:FireAllClients()',
+    ].join('\n');
+
+    assert.strictEqual(organize(source), source);
+  });
+
+  it('orders groups, services and requires', () => {
+    const source = [
+      'local Config = require(script.Parent.Config)',
+      'local Util = require(ReplicatedStorage.Shared.Util)',
+      'local RS = game:GetService("ReplicatedStorage")',
+      'local Signal = require(RS.Packages.Signal)',
+      'local Promise = require(RS.Packages.Promise)',
+      'local Zed = game:GetService("Players")',
+      'local ReplicatedStorage = game:GetService("ReplicatedStorage")',
+      '',
+      'print(Config, Util, Signal, Promise, Zed)',
+    ].join('\n');
+
+    assert.strictEqual(organize(source), [
+      'local Zed = game:GetService("Players")',
+      'local RS = game:GetService("ReplicatedStorage")',
+      'local ReplicatedStorage = game:GetService("ReplicatedStorage")',
+      '',
+      'local Promise = require(RS.Packages.Promise)',
+      'local Signal = require(RS.Packages.Signal)',
+      '',
+      'local Util = require(RS.Shared.Util)',
+      '',
+      'local Config = require(script.Parent.Config)',
+      '',
+      'print(Config, Util, Signal, Promise, Zed)',
+    ].join('\n'));
+  });
+
+  it('follows the configured group and service order', () => {
+    const source = [
+      'local Players = game:GetService("Players")',
+      'local ReplicatedStorage = game:GetService("ReplicatedStorage")',
+      '',
+      'local Promise = require(ReplicatedStorage.Packages.Promise)',
+      '',
+      'local Config = require(script.Parent.Config)',
+      '',
+      'print(Players, Promise, Config)',
+    ].join('\n');
+
+    assert.strictEqual(organize(source, {
+      organizeRequiresGroups: ['local', 'services', 'packages'],
+      serviceOrder: ['ReplicatedStorage'],
+    }), [
+      'local Config = require(script.Parent.Config)',
+      '',
+      'local ReplicatedStorage = game:GetService("ReplicatedStorage")',
+      'local Players = game:GetService("Players")',
+      '',
+      'local Promise = require(ReplicatedStorage.Packages.Promise)',
+      '',
+      'print(Players, Promise, Config)',
+    ].join('\n'));
+  });
+
+  it('moves a declaration below the local it is built on', () => {
+    const source = [
+      'local ReplicatedStorage = game:GetService("ReplicatedStorage")',
+      '',
+      'local Remotes = Net.Remotes',
+      'local Net = require(ReplicatedStorage.Shared.Net)',
+      '',
+      'print(Remotes)',
+    ].join('\n');
+
+    assert.strictEqual(organize(source), [
+      'local ReplicatedStorage = game:GetService("ReplicatedStorage")',
+      '',
+      'local Net = require(ReplicatedStorage.Shared.Net)',
+      'local Remotes = Net.Remotes',
+      '',
+      'print(Remotes)',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { findRequireCalls } from '../requireParser';
+
+describe('findRequireCalls', () => {
+  it('parses the argument, assigned local and ranges', () => {
+    const [call] = findRequireCalls('local Util = require( script.Parent.Util )');
+    assert.strictEqual(call.expression, 'script.Parent.Util');
+    assert.strictEqual(call.varName, 'Util');
+    assert.strictEqual(call.line, 0);
+    assert.deepStrictEqual([call.argumentRange.start.character, call.argumentRange.end.character], [22, 40]);
+    assert.deepStrictEqual([call.callRange.start.character, call.callRange.end.character], [13, 42]);
+  });
+
+  it('compacts whitespace and keeps WaitForChild calls', () => {
+    const [call] = findRequireCalls('require(Shared\n  :WaitForChild("Signal"))');
+    assert.strictEqual(call.expression, 'Shared:WaitForChild("Signal")');
+    assert.strictEqual(call.varName, undefined);
+  });
+
+  it('skips member calls and commented-out requires', () => {
+    const calls = findRequireCalls('Loader.require(script.A)\nobj:require(script.B)\n-- require(script.C)\nrequire(script.D)');
+    assert.deepStrictEqual(calls.map(c => c.expression), ['script.D']);
+  });
+
+  it('marks requires inside function bodies', () => {
+    const source = [
+      'local A = require(script.A)',
+      'if x then local B = require(script.B) end',
+      'local function get()',
+      '  return require(script.C)',
+      'end',
+      'return { lazy = function() return require(script.D) end, E = require(script.E) }',
+    ].join('\n');
+    assert.deepStrictEqual(
+      findRequireCalls(source).map(c => [c.expression, c.insideFunction]),
+      [['script.A', false], ['script.B', false], ['script.C', true], ['script.D', true], ['script.E', false]]
+    );
+  });
+
+  it('keeps requires after a function returning an if-expression at the top level', () => {
+    const source = 'local function pick(a) return if a then 1 else 2 end\nlocal B = require(script.Parent.B)';
+    assert.deepStrictEqual(findRequireCalls(source).map(c => c.insideFunction), [false]);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert';
+import { getUniqueVariableName, VariableNamingRules } from '../variableNaming';
+import { ModuleInfo } from '../types';
+
+const RULES: VariableNamingRules = { variableCase: 'auto', variableStripSuffixes: [], variableAliases: {} };
+
+function createModule(instancePath: string): ModuleInfo {
+  const name = instancePath.split('.').pop()!;
+  return { name, fsPath: `/workspace/${name}.luau`, instancePath, relativePath: `src/${name}.luau`, isWallyPackage: false };
+}
+
+describe('getUniqueVariableName', () => {
+  it('prefixes parent names, then numbers, to avoid taken names', () => {
+    const module = createModule('game.ServerScriptService.Server.Config');
+    assert.strictEqual(getUniqueVariableName(module, new Set(), RULES), 'Config');
+    assert.strictEqual(getUniqueVariableName(module, new Set(['Config']), RULES), 'ServerConfig');
+    assert.strictEqual(getUniqueVariableName(module, new Set(['Config', 'ServerConfig']), RULES), 'Config2');
+  });
+
+  it('never uses a Lua keyword', () => {
+    assert.strictEqual(getUniqueVariableName(createModule('game.ReplicatedStorage.Shared.end'), new Set(), RULES), 'SharedEnd');
+    assert.strictEqual(getUniqueVariableName(createModule('game.ReplicatedStorage.function'), new Set(), RULES), 'function2');
+    const camel: VariableNamingRules = { ...RULES, variableCase: 'camelCase' };
+    assert.strictEqual(getUniqueVariableName(createModule('game.ReplicatedStorage.Util.Repeat'), new Set(), camel), 'utilRepeat');
+  });
+
+  it('sanitizes aliases', () => {
+    const rules: VariableNamingRules = { ...RULES, variableAliases: { Roact: 'react-lua', Fusion: '2d' } };
+    assert.strictEqual(getUniqueVariableName(createModule('game.ReplicatedStorage.Packages.Roact'), new Set(), rules), 'react_lua');
+    assert.strictEqual(getUniqueVariableName(createModule('game.ReplicatedStorage.Packages.Fusion'), new Set(), rules), '_2d');
+  });
+});
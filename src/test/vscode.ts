@@ -0,0 +1,35 @@
+/**
+ * Stand-in for the parts of the `vscode` API that the unit-tested modules use, so tests run in plain Node
+ */
+
+export class Position {
+  constructor(public readonly line: number, public readonly character: number) {}
+}
+
+export class Range {
+  public readonly start: Position;
+  public readonly end: Position;
+
+  constructor(startLine: number | Position, startCharacter: number | Position, endLine?: number, endCharacter?: number) {
+    if (startLine instanceof Position && startCharacter instanceof Position) {
+      this.start = startLine;
+      this.end = startCharacter;
+    } else {
+      this.start = new Position(startLine as number, startCharacter as number);
+      this.end = new Position(endLine!, endCharacter!);
+    }
+  }
+}
+
+export class TextEdit {
+  constructor(public readonly range: Range, public readonly newText: string) {}
+
+  static replace(range: Range, newText: string): TextEdit {
+    return new TextEdit(range, newText);
+  }
+}
+
+export enum EndOfLine {
+  LF = 1,
+  CRLF = 2,
+}
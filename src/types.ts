@@ -16,8 +16,64 @@ export interface ModuleInfo {
   relativePath: string;
   /** Whether this is a Wally package */
   isWallyPackage?: boolean;
+  /** What the module returns, parsed from its source */
+  exports?: ModuleExports;
 }
 
+/**
+ * A member of the table a module returns
+ */
+export interface ModuleExport {
+  name: string;
+  kind: 'function' | 'method' | 'field';
+  /** Parameter list for functions and methods, e.g. "(self, name: string)" */
+  params?: string;
+}
+
+/**
+ * Exported surface of a module
+ */
+export interface ModuleExports {
+  /** Name of the returned local (e.g. "Module" for `return Module`), if it returns an identifier */
+  returnName?: string;
+  /** Functions, methods and fields of the returned table */
+  members: ModuleExport[];
+  /** Names of `export type` declarations, including generic parameters */
+  types: string[];
+}
+
+/**
+ * A module entry in the persisted index, with the source file's mtime at indexing time
+ */
+export interface CachedModuleEntry {
+  module: ModuleInfo;
+  mtime: number;
+}
+
+/**
+ * Persisted module index (stored in extension workspace storage)
+ */
+export interface ModuleIndexCacheData {
+  /** Cache format version */
+  version: number;
+  /** Hash of sourcemap.json and default.project.json the index was resolved against */
+  projectHash: string;
+  entries: CachedModuleEntry[];
+}
+
+/**
+ * Change notification from the module indexer.
+ * File events are reported for every watched file, including scripts that aren't indexed as modules.
+ */
+export type ModuleIndexChange =
+  | { kind: 'rebuilt' }
+  | { kind: 'created' | 'changed' | 'deleted'; fsPath: string };
+
+/**
+ * Where an instance path was resolved from
+ */
+export type InstancePathSource = 'sourcemap' | 'rojoProject' | 'convention';
+
 /**
  * Rojo sourcemap structure
  */
@@ -64,6 +120,59 @@ export interface DefinedVariable {
  */
 export type FuzzyMatchStrength = 'strict' | 'normal' | 'loose';
 
+/**
+ * Where code runs: server only, client only, or both (e.g. ReplicatedStorage)
+ */
+export type Realm = 'server' | 'client' | 'shared';
+
+/**
+ * How completion treats server-only modules while editing client code
+ */
+export type ServerModulesInClient = 'hide' | 'deprioritize' | 'show';
+
+/**
+ * What to do with requires affected by moving or renaming a module
+ */
+export type UpdateRequiresOnRename = 'prompt' | 'always' | 'preview' | 'never';
+
+/**
+ * Groups the Organize Requires command sorts declarations into
+ */
+export type RequireGroup = 'services' | 'packages' | 'shared' | 'local';
+
+/**
+ * Where a require chosen from completion is inserted
+ * - cursor: at the trigger
+ * - block: into the require block, removing the trigger line
+ * - blockAndName: into the require block, replacing the trigger with the variable name
+ */
+export type RequirePlacement = 'cursor' | 'block' | 'blockAndName';
+
+/**
+ * Case applied to generated variable names ('auto' keeps the module name)
+ */
+export type VariableCase = 'auto' | 'PascalCase' | 'camelCase';
+
+/**
+ * Weight of each signal in a completion result's ranking score. Signals range from 0 to 1.
+ */
+export interface RankingWeights {
+  /** How well the query matches the module name */
+  match: number;
+  /** Kind of name match: exact, prefix, acronym, substring, subsequence */
+  matchType: number;
+  /** How much of the module name the query covers, favoring short names */
+  nameLength: number;
+  /** How well the query matches the module's relative path, for modules whose name doesn't match */
+  pathRelevance: number;
+  /** Whether the module is a Wally package */
+  wallyPackage: number;
+  /** How often and how recently the module was picked */
+  usage: number;
+  /** How close the module is to the current file */
+  proximity: number;
+}
+
 /**
  * Path style preference
  */
@@ -87,4 +196,38 @@ export interface ExtensionConfig {
   useGetService: boolean;
   /** Debug mode */
   debugMode: boolean;
+  /** Report requires that form a cycle */
+  detectCircularRequires: boolean;
+  /** Report requires whose target doesn't exist */
+  detectBrokenRequires: boolean;
+  /** Report client code requiring server-only modules */
+  detectRealmViolations: boolean;
+  /** How completion treats server-only modules in client code */
+  serverModulesInClient: ServerModulesInClient;
+  /** What to do with requires affected by moving or renaming a module */
+  updateRequiresOnRename: UpdateRequiresOnRename;
+  /** Group order used by Organize Requires */
+  organizeRequiresGroups: RequireGroup[];
+  /** Organize requires when saving a file */
+  organizeRequiresOnSave: boolean;
+  /** Show require counts as a code lens at the top of module files */
+  showRequireCodeLens: boolean;
+  /** Where requires chosen from completion are inserted */
+  requirePlacement: RequirePlacement;
+  /** Add a GetService declaration when a require needs a service that has no variable yet */
+  declareMissingServices: boolean;
+  /** Services listed first, in this order, when placing and organizing service declarations */
+  serviceOrder: string[];
+  /** Case applied to generated variable names */
+  variableCase: VariableCase;
+  /** Suffixes removed from module names when naming variables */
+  variableStripSuffixes: string[];
+  /** Explicit variable names for modules, by module name */
+  variableAliases: Record<string, string>;
+  /** Rank completion results by how often and how recently they were picked */
+  rankByUsage: boolean;
+  /** Rank completion results by how close they are to the current file */
+  rankByProximity: boolean;
+  /** Weight of each ranking signal in completion results */
+  rankingWeights: RankingWeights;
 }
@@ -0,0 +1,93 @@
+import { ExtensionConfig, ModuleInfo } from './types';
+import { splitInstancePath } from './instancePath';
+
+/**
+ * Settings that affect generated variable names
+ */
+export type VariableNamingRules = Pick<ExtensionConfig, 'variableCase' | 'variableStripSuffixes' | 'variableAliases'>;
+
+/** Lua keywords, which can't be used as variable names */
+const RESERVED_WORDS = new Set([
+  'and', 'break', 'do', 'else', 'elseif', 'end', 'false', 'for', 'function', 'if', 'in',
+  'local', 'nil', 'not', 'or', 'repeat', 'return', 'then', 'true', 'until', 'while',
+]);
+
+/**
+ * Turn an instance name into a valid identifier
+ */
+function sanitizeName(name: string): string {
+  return name
+    .replace(/\.(luau|lua|server|client)$/gi, '')
+    .replace(/[^a-zA-Z0-9_]/g, '_')
+    .replace(/^[0-9]/, '_$&');
+}
+
+/**
+ * Apply the configured case to an identifier, joining snake_case words
+ */
+function applyCase(name: string, rules: VariableNamingRules): string {
+  if (rules.variableCase === 'auto') return name;
+
+  const pascal = name
+    .split('_')
+    .filter(word => word !== '')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+  if (pascal === '' || /^[0-9]/.test(pascal)) return name;
+
+  return rules.variableCase === 'camelCase' ? pascal.charAt(0).toLowerCase() + pascal.slice(1) : pascal;
+}
+
+/**
+ * Get the local variable name a module is required into
+ * @param rules Naming rules; without them the sanitized module name is used
+ */
+export function getModuleVariableName(moduleInfo: ModuleInfo, rules?: VariableNamingRules): string {
+  const alias = rules?.variableAliases[moduleInfo.name];
+  if (alias) return sanitizeName(alias);
+
+  let varName = sanitizeName(moduleInfo.name);
+
+  if (moduleInfo.isWallyPackage && varName.length > 0) {
+    varName = varName.charAt(0).toUpperCase() + varName.slice(1);
+  }
+
+  if (!rules) return varName;
+
+  for (const suffix of rules.variableStripSuffixes) {
+    if (suffix !== '' && varName.length > suffix.length && varName.endsWith(suffix)) {
+      varName = varName.slice(0, -suffix.length);
+      break;
+    }
+  }
+
+  return applyCase(varName, rules);
+}
+
+/**
+ * Pick a variable name for a module that doesn't collide with identifiers already declared or Lua keywords.
+ * Collisions are resolved by prefixing parent instance names (`Config` in `Server` becomes `ServerConfig`),
+ * then by a numeric suffix.
+ */
+export function getUniqueVariableName(
+  moduleInfo: ModuleInfo,
+  taken: Set<string>,
+  rules: VariableNamingRules
+): string {
+  const isTaken = (name: string) => taken.has(name) || RESERVED_WORDS.has(name);
+  const varName = getModuleVariableName(moduleInfo, rules);
+  if (!isTaken(varName)) return varName;
+
+  // Ancestors nearest first, stopping before the service
+  const ancestors = splitInstancePath(moduleInfo.instancePath).slice(2, -1).reverse();
+  let candidate = varName;
+  for (const ancestor of ancestors) {
+    const prefix = sanitizeName(ancestor);
+    candidate = applyCase(prefix.charAt(0).toUpperCase() + prefix.slice(1) + candidate.charAt(0).toUpperCase() + candidate.slice(1), rules);
+    if (!isTaken(candidate)) return candidate;
+  }
+
+  let index = 2;
+  while (isTaken(`${varName}${index}`)) index++;
+  return `${varName}${index}`;
+}